@@ -1,12 +1,39 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
-import { MemoryItem, SearchResult } from './types';
-import { analyzeContent, getEmbedding, findRelatedMemories, generateInsights } from './services/gemini';
-import { saveMemory, getAllMemories, deleteMemory, getAllCollections, getMemoriesByCollection, saveCollection } from './services/db';
-import { cosineSimilarity } from './services/vector';
-import { Collection, Insight } from './types';
+import { MemoryItem, Tag } from './types';
+import { generateInsights, getProviderId, setProviderId } from './services/gemini';
+import { saveMemory, getMemory, getAllMemories, getAllCollections, getAllTags, getMemoriesByCollection, onMigrationProgress, repairIntegrity } from './services/db';
+import { syncVectorIndex } from './services/vectorIndex';
+import { syncTextIndex } from './services/textIndex';
+import { syncPdfIndex } from './services/pdfIndex';
+import { DEFAULT_FETCH_PROXY, getFetchProxy, setFetchProxy } from './services/snapshot';
+import { startLinkChecker } from './services/linkHealth';
+import { moveToTrash, purgeExpiredTrash } from './services/trash';
+import { isSearchResult, searchMemories, toMemoryItem } from './services/search';
+import { matchesQuery, parseSearchQuery } from './services/query';
+import { exportArchive, importArchive } from './services/archive';
+import { captureMemory, processCaptureQueue, reanalyzeMemories, startCaptureProcessor } from './services/captureQueue';
+import { BatchImportHandle, collectDroppedFiles, createBatchItems, isMediaFile, retryableItems, startBatchImport } from './services/batchImport';
+import { findDuplicateGroups, findDuplicatesFor, ignoreDuplicateGroup, linkMemories, mergeCapture, mergeMemories } from './services/duplicates';
+import { backfillAttachmentHashes } from './services/attachments';
+import { isDue } from './services/review';
+import { cancelReindex, countStale, dismissReanalysis, isReanalysisDismissed, resumeReindex, startReindex, startReindexer } from './services/reindex';
+import { AIProviderId, BatchImportItem, Collection, DuplicateGroup, DuplicateMatch, DuplicateResolution, Insight, MigrationProgress, ReindexJob } from './types';
 import { MemoryCard } from './components/MemoryCard';
 import { MemoryDetail } from './components/MemoryDetail';
+import { AskPanel } from './components/AskPanel';
+import { BatchImportPanel } from './components/BatchImportPanel';
+import { DuplicateDialog } from './components/DuplicateDialog';
+import { DuplicatesPanel } from './components/DuplicatesPanel';
+import { TrashPanel } from './components/TrashPanel';
+import { TagTaxonomyPanel } from './components/TagTaxonomyPanel';
+import { TagManager } from './components/TagManager';
+import { BulkActionBar } from './components/BulkActionBar';
+import { ReindexBanner } from './components/ReindexBanner';
+import { ReviewPanel } from './components/ReviewPanel';
+import { CollectionDropBar, CollectionsView, MEMORY_DRAG_TYPE } from './components/CollectionsView';
+import { pathOf } from './services/taxonomy';
+import { applyEdits } from './services/revisions';
 
 // Speech Recognition Type Shim
 interface IWindow extends Window {
@@ -17,40 +44,107 @@ interface IWindow extends Window {
 const App: React.FC = () => {
   const [memories, setMemories] = useState<MemoryItem[]>([]);
   const [collections, setCollections] = useState<Collection[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
   const [insights, setInsights] = useState<Insight[]>([]);
   const [inputText, setInputText] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<MemoryItem[] | null>(null);
-  const [isResurfacing, setIsResurfacing] = useState(false);
+  const [showReview, setShowReview] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [selectedMemory, setSelectedMemory] = useState<MemoryItem | null>(null);
+  const [selectedPage, setSelectedPage] = useState<number | undefined>(undefined);
   const [activeView, setActiveView] = useState<'memories' | 'collections' | 'insights'>('memories');
   const [selectedCollection, setSelectedCollection] = useState<string | null>(null);
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
   const [showInstallPrompt, setShowInstallPrompt] = useState(false);
   const [isInstalled, setIsInstalled] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [migrationProgress, setMigrationProgress] = useState<MigrationProgress | null>(null);
   const [theme, setTheme] = useState<'light' | 'dark'>(() => {
     if (window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches) return 'dark';
     return 'light';
   });
+  const [aiProvider, setAIProvider] = useState<AIProviderId>(() => getProviderId());
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const [batchItems, setBatchItems] = useState<BatchImportItem[] | null>(null);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const batchHandleRef = useRef<BatchImportHandle | null>(null);
+  const [duplicateCheck, setDuplicateCheck] = useState<{ text: string, file?: File, matches: DuplicateMatch[] } | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [isDraggingMemory, setIsDraggingMemory] = useState(false);
+  const [showTaxonomy, setShowTaxonomy] = useState(false);
+  const [showTagManager, setShowTagManager] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selectionAnchorRef = useRef<string | null>(null); // Last clicked card, where shift-click ranges start
+  const [showAsk, setShowAsk] = useState(false);
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[] | null>(null);
+  const [reindexJob, setReindexJob] = useState<ReindexJob | null>(null);
+  const [reanalysisDismissed, setReanalysisDismissed] = useState(() => isReanalysisDismissed());
+
+  // Enrich memories captured offline (or still waiting on the AI) in the background
+  useEffect(() => {
+    if (isLoading) return;
+    return startCaptureProcessor(() => {
+      loadMemories();
+    });
+  }, [isLoading]);
+
+  // Carry on re-indexing after a model change, including a job interrupted by a reload
+  useEffect(() => {
+    if (isLoading) return;
+    return startReindexer(setReindexJob, () => {
+      loadMemories();
+    });
+  }, [isLoading]);
+
+  // Re-check saved links for rot in the background
+  useEffect(() => {
+    if (isLoading) return;
+    return startLinkChecker(() => {
+      loadMemories();
+    });
+  }, [isLoading]);
 
   // Load memories on mount
   useEffect(() => {
+    let migrationFailed = false;
+    const unsubscribe = onMigrationProgress(progress => {
+      if (progress.status === 'failed') migrationFailed = true;
+      setMigrationProgress(progress);
+    });
     const initApp = async () => {
       setIsLoading(true);
-      await Promise.all([
-        loadMemories(),
-        loadCollections()
-      ]);
+      await loadMemories();
+      unsubscribe();
+      // The database is still on its old version; keep the failure screen up rather than run jobs against it
+      if (migrationFailed) return;
+      // Fixes connections and collection lists left inconsistent by older versions
+      repairIntegrity()
+        .then(report => { if (report.orphanedLinks + report.asymmetricLinks + report.collectionsFixed > 0) loadMemories(); })
+        .catch(console.error);
+      // Memories past the trash retention period are deleted for good
+      purgeExpiredTrash()
+        .then(purged => { if (purged > 0) loadMemories(); })
+        .catch(console.error);
+      // Older attachments get content hashes for duplicate detection
+      backfillAttachmentHashes().catch(console.error);
+      // PDFs saved before page search get their text extracted in the background
+      getAllMemories()
+        .then(syncPdfIndex)
+        .then(indexed => { if (indexed > 0) loadMemories(); })
+        .catch(console.error);
       checkIfInstalled();
       setupInstallPrompt();
       // Small delay for smooth loading animation
       setTimeout(() => setIsLoading(false), 300);
     };
     initApp();
+    return unsubscribe;
   }, []);
 
   // Check if app is already installed
@@ -125,9 +219,9 @@ const App: React.FC = () => {
   // Generate insights when memories change
   useEffect(() => {
     if (memories.length > 0) {
-      generateInsights(memories).then(setInsights).catch(console.error);
+      generateInsights(memories, tags).then(setInsights).catch(console.error);
     }
-  }, [memories]);
+  }, [memories, tags]);
 
   // Toggle Theme
   useEffect(() => {
@@ -142,12 +236,33 @@ const App: React.FC = () => {
     setTheme(prev => prev === 'light' ? 'dark' : 'light');
   };
 
+  const toggleAIProvider = () => {
+    const next: AIProviderId = aiProvider === 'gemini' ? 'local' : 'gemini';
+    setProviderId(next);
+    setAIProvider(next);
+    setReanalysisDismissed(isReanalysisDismissed());
+    // Switching to the local provider can unblock memories waiting on the network
+    processCaptureQueue().catch(console.error);
+    resumeReindex();
+  };
+
+  const configureFetchProxy = () => {
+    const template = window.prompt(
+      `Proxy used to save readable copies of links. {url} is replaced by the page address; leave empty for the built-in ${DEFAULT_FETCH_PROXY}`,
+      getFetchProxy()
+    );
+    if (template !== null) setFetchProxy(template);
+  };
+
   const loadMemories = async () => {
     try {
       const items = await getAllMemories();
       setMemories(items);
-      // Auto-create collections from memory metadata
-      await updateCollectionsFromMemories(items);
+      // The open memory may have been analyzed or edited elsewhere since it was opened
+      setSelectedMemory(prev => prev && (items.find(m => m.id === prev.id) || prev));
+      await Promise.all([syncVectorIndex(items), syncTextIndex(items)]);
+      // Collection members are kept in step as memories are saved
+      await Promise.all([loadCollections(), loadTags()]);
     } catch (e) {
       console.error(e);
     }
@@ -162,43 +277,12 @@ const App: React.FC = () => {
     }
   };
 
-  const updateCollectionsFromMemories = async (memories: MemoryItem[]) => {
-    const collectionMap = new Map<string, string[]>();
-    
-    memories.forEach(m => {
-      const collectionName = m.aiMetadata.collection || 'General';
-      if (!collectionMap.has(collectionName)) {
-        collectionMap.set(collectionName, []);
-      }
-      collectionMap.get(collectionName)!.push(m.id);
-    });
-
-    // Load existing collections first
-    const existingCollections = await getAllCollections();
-
-    // Update or create collections
-    for (const [name, memoryIds] of collectionMap.entries()) {
-      const existing = existingCollections.find(c => c.name === name);
-      if (existing) {
-        // Update existing collection with unique memory IDs
-        const uniqueIds = Array.from(new Set([...existing.memoryIds, ...memoryIds]));
-        await saveCollection({
-          ...existing,
-          memoryIds: uniqueIds
-        });
-      } else {
-        // Create new collection
-        const newCollection: Collection = {
-          id: crypto.randomUUID(),
-          name,
-          memoryIds,
-          createdAt: Date.now()
-        };
-        await saveCollection(newCollection);
-      }
+  const loadTags = async () => {
+    try {
+      setTags(await getAllTags());
+    } catch (e) {
+      console.error(e);
     }
-    
-    await loadCollections();
   };
 
   // 1. Enhanced Hybrid Search Logic
@@ -208,16 +292,23 @@ const App: React.FC = () => {
         setSearchResults(null);
         return;
       }
-      
-      if (isResurfacing) setIsResurfacing(false);
 
-      const lowerQ = searchQuery.toLowerCase();
-      const ONE_DAY = 24 * 60 * 60 * 1000;
-      const NOW = Date.now();
+      // Structured filters (type:, topic:, -mood:, "phrase"...) narrow the candidate set
+      const parsedQuery = parseSearchQuery(searchQuery);
+      const candidates = memories.filter(m => matchesQuery(m, parsedQuery, { tags, collections }));
+      const textQuery = parsedQuery.text;
+
+      // Filters only: no free text left to rank, keep newest first
+      if (!textQuery) {
+        setSearchResults(candidates);
+        return;
+      }
+
+      const lowerQ = textQuery.toLowerCase();
 
       // Quick keyword filter for very short queries
-      if (searchQuery.length < 3) {
-        const filtered = memories.filter(m => 
+      if (textQuery.length < 3) {
+        const filtered = candidates.filter(m => 
           m.content.toLowerCase().includes(lowerQ) || 
           m.aiMetadata.summary.toLowerCase().includes(lowerQ) ||
           (m.aiMetadata.topics || []).some(t => t.toLowerCase().includes(lowerQ))
@@ -226,66 +317,9 @@ const App: React.FC = () => {
         return;
       }
 
-      // Semantic Search + Boosts
+      // Hybrid semantic + keyword search
       try {
-        const queryEmbedding = await getEmbedding(searchQuery);
-        
-        // Base results from vector search
-        let scoredResults: SearchResult[] = [];
-
-        if (queryEmbedding.length > 0) {
-            scoredResults = memories.map(memory => {
-                let score = cosineSimilarity(queryEmbedding, memory.embedding);
-                
-                // --- Boost 1: Recency (Decay over 60 days) ---
-                const age = NOW - memory.createdAt;
-                const recencyScore = Math.max(0, 1 - (age / (60 * ONE_DAY)));
-                score += recencyScore * 0.15; // Up to 0.15 boost for new items
-
-                // --- Boost 2: Exact Keyword/Tag Match ---
-                // Combine all text metadata for checking
-                const allMetadataText = [
-                    memory.content,
-                    memory.aiMetadata.summary,
-                    ...(memory.aiMetadata.topics || []),
-                    ...(memory.aiMetadata.mood || [])
-                ].join(' ').toLowerCase();
-
-                // If explicit keyword match found in metadata
-                if (allMetadataText.includes(lowerQ)) {
-                    score += 0.25;
-                }
-
-                // If strict tag match
-                const exactTags = [...(memory.aiMetadata.topics || []), ...(memory.aiMetadata.mood || [])].map(t => t.toLowerCase());
-                if (exactTags.some(t => t === lowerQ)) {
-                    score += 0.35;
-                }
-
-                return { ...memory, score };
-            });
-        }
-
-        // Filter by threshold
-        let finalResults = scoredResults
-          .sort((a, b) => b.score - a.score)
-          .filter(r => r.score > 0.40);
-
-        // Fallback: If AI search returns nothing (or vector fails), try strict keyword search
-        if (finalResults.length === 0) {
-            const fallbackResults = memories.filter(m => {
-                 const allText = [
-                    m.content,
-                    m.aiMetadata.summary,
-                    ...(m.aiMetadata.topics || [])
-                ].join(' ').toLowerCase();
-                return allText.includes(lowerQ);
-            }).map(m => ({ ...m, score: 0.5 })); // Artificial score
-            
-            finalResults = fallbackResults;
-        }
-
-        setSearchResults(finalResults);
+        setSearchResults(await searchMemories(textQuery, candidates));
       } catch (e) {
         console.error("Search failed", e);
       }
@@ -293,7 +327,7 @@ const App: React.FC = () => {
 
     const timeoutId = setTimeout(performSearch, 500);
     return () => clearTimeout(timeoutId);
-  }, [searchQuery, memories]); 
+  }, [searchQuery, memories, tags, collections]); 
 
 
   // 2. Save Logic
@@ -301,87 +335,149 @@ const App: React.FC = () => {
     if ((!inputText.trim() && !file) || isProcessing) return;
 
     setIsProcessing(true);
-    const id = crypto.randomUUID();
-    const createdAt = Date.now();
-    let contentToAnalyze = inputText;
-    let type: MemoryItem['type'] = 'note';
-    let mediaData: { data: string, mimeType: string } | undefined = undefined;
-
     try {
-        if (file) {
-            const isPdf = file.type === 'application/pdf';
-            type = isPdf ? 'pdf' : 'image';
-            
-            const base64Str = await new Promise<string>((resolve) => {
-                const reader = new FileReader();
-                reader.onloadend = () => resolve(reader.result as string);
-                reader.readAsDataURL(file);
-            });
-
-            mediaData = {
-                data: base64Str,
-                mimeType: file.type
-            };
-            
-            contentToAnalyze = inputText || (isPdf ? `PDF Document: ${file.name}` : "Visual memory");
-        } 
-        else if (inputText.match(/^https?:\/\//)) {
-            type = 'link';
-        }
-
-        const [metadata, embedding] = await Promise.all([
-            analyzeContent(contentToAnalyze, mediaData, type),
-            getEmbedding(contentToAnalyze) 
-        ]);
-
-        const refinedEmbedding = await getEmbedding(`${contentToAnalyze} ${metadata.summary} ${metadata.topics.join(' ')} ${metadata.mood.join(' ')}`);
-
-        const newMemory: MemoryItem = {
-            id,
-            type,
-            content: inputText || (type === 'pdf' && file ? file.name : (type === 'image' ? 'Image' : '')),
-            imageData: mediaData?.data,
-            aiMetadata: metadata,
-            embedding: refinedEmbedding.length > 0 ? refinedEmbedding : embedding,
-            createdAt,
-            resurfaceCount: 0
-        };
-
-        // Find related memories and update connections
-        const allMemories = await getAllMemories();
-        const relatedIds = await findRelatedMemories(newMemory, allMemories);
-        newMemory.aiMetadata.relatedMemoryIds = relatedIds;
-        
-        // Update related memories to include this one
-        for (const relatedId of relatedIds) {
-            const related = allMemories.find(m => m.id === relatedId);
-            if (related) {
-                const updatedRelated = {
-                    ...related,
-                    aiMetadata: {
-                        ...related.aiMetadata,
-                        relatedMemoryIds: [...(related.aiMetadata.relatedMemoryIds || []), id]
-                    }
-                };
-                await saveMemory(updatedRelated);
-            }
+        // Ask before saving the same link, file or (nearly) the same note again
+        const matches = await findDuplicatesFor({ text: inputText, file }, memories);
+        if (matches.length > 0) {
+            setDuplicateCheck({ text: inputText, file, matches });
+            return;
         }
 
-        await saveMemory(newMemory);
-        setInputText('');
-        if (fileInputRef.current) fileInputRef.current.value = '';
+        // Saved right away as pending; the capture queue adds AI metadata when it can
+        await captureMemory({ text: inputText, file });
+        clearInput();
         await loadMemories();
 
     } catch (error) {
         console.error("Failed to save memory:", error);
-        alert("Failed to analyze/save. Check API Key or connection.");
+        alert("Failed to save memory.");
+    } finally {
+        setIsProcessing(false);
+    }
+  };
+
+  const clearInput = () => {
+    setInputText('');
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleResolveDuplicate = async (resolution: DuplicateResolution) => {
+    if (!duplicateCheck) return;
+    const { text, file, matches } = duplicateCheck;
+    const existing = matches.map(m => m.memory);
+    setDuplicateCheck(null);
+    setIsProcessing(true);
+    try {
+        if (resolution === 'merge') {
+            const merged = await mergeCapture(existing[0], file ? '' : text);
+            setSelectedMemory(merged);
+        } else if (resolution === 'link') {
+            // A new memory is linked from both ends as it's saved
+            await captureMemory({ text, file, relatedMemoryIds: existing.map(m => m.id) });
+        } else {
+            await captureMemory({ text, file });
+        }
+        clearInput();
+        await loadMemories();
+    } catch (error) {
+        console.error("Failed to save memory:", error);
+        alert("Failed to save memory.");
     } finally {
         setIsProcessing(false);
     }
   };
 
+  // Library-wide duplicate sweep
+  const openDuplicates = async () => {
+    setDuplicateGroups(null);
+    setShowDuplicates(true);
+    try {
+      setDuplicateGroups(await findDuplicateGroups(memories));
+    } catch (error) {
+      console.error("Duplicate scan failed:", error);
+      alert("Failed to scan for duplicates.");
+      setShowDuplicates(false);
+    }
+  };
+
+  const handleResolveGroup = async (group: DuplicateGroup, resolution: DuplicateResolution) => {
+    const members = group.memoryIds
+      .map(id => memories.find(m => m.id === id))
+      .filter((m): m is MemoryItem => !!m);
+    try {
+      if (resolution === 'merge') {
+        await mergeMemories(members[0], members.slice(1));
+      } else if (resolution === 'link') {
+        await linkMemories(members.map(m => m.id));
+      } else {
+        ignoreDuplicateGroup(group);
+      }
+      setDuplicateGroups(prev => prev ? prev.filter(g => g !== group) : prev);
+      if (resolution !== 'keep') await loadMemories();
+    } catch (error) {
+      console.error("Failed to resolve duplicates:", error);
+      alert("Failed to update these memories.");
+    }
+  };
+
+  // Batch Import (multiple files or whole folders)
+  const runBatchImport = async (items: BatchImportItem[]) => {
+    if (items.length === 0 || isBatchRunning) return;
+    setBatchItems(items);
+    setIsBatchRunning(true);
+    const handle = startBatchImport(items, setBatchItems);
+    batchHandleRef.current = handle;
+    try {
+      setBatchItems(await handle.done);
+    } catch (error) {
+      console.error("Batch import failed:", error);
+      alert("Batch import stopped unexpectedly.");
+    } finally {
+      batchHandleRef.current = null;
+      setIsBatchRunning(false);
+      await loadMemories();
+    }
+  };
+
+  // A single image or PDF is saved like before (with the typed text); anything else is a batch
+  const handleFiles = async (files: { file: File, path?: string }[]) => {
+    if (files.length === 1 && isMediaFile(files[0].file) && !files[0].path?.includes('/')) {
+      handleSave(files[0].file);
+      return;
+    }
+    try {
+      await runBatchImport(await createBatchItems(files));
+    } catch (error) {
+      console.error("Failed to read import files:", error);
+      alert("Failed to read the selected files.");
+    }
+  };
+
+  const handleRetryFailed = () => {
+    if (!batchItems) return;
+    runBatchImport(retryableItems(batchItems));
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (isProcessing) return;
+    try {
+      handleFiles(await collectDroppedFiles(e.dataTransfer));
+    } catch (error) {
+      console.error("Failed to read dropped files:", error);
+      alert("Failed to read the dropped files.");
+    }
+  };
+
+  // PDF search hits open the viewer at the page that matched
+  const openMemory = (item: MemoryItem) => {
+    setSelectedPage(isSearchResult(item) ? item.passage?.page : undefined);
+    setSelectedMemory(toMemoryItem(item));
+  };
+
   const handleDelete = async (id: string) => {
-    await deleteMemory(id);
+    await moveToTrash(id);
     if (selectedMemory?.id === id) setSelectedMemory(null);
     if (searchResults) {
         setSearchResults(prev => prev ? prev.filter(m => m.id !== id) : null);
@@ -389,72 +485,104 @@ const App: React.FC = () => {
     setMemories(prev => prev.filter(m => m.id !== id));
   };
 
-  const handleUpdate = async (updatedItem: MemoryItem) => {
-    await saveMemory(updatedItem); 
+  const handleUpdate = async (edited: MemoryItem, revertOf?: string) => {
+    // The edit was made on the copy on screen; it's replayed on the stored memory, which
+    // background analysis may have filled in since
+    const base = selectedMemory?.id === edited.id ? selectedMemory : memories.find(m => m.id === edited.id);
+    const current = await getMemory(edited.id);
+    if (!current) return;
+    const updatedItem = base ? applyEdits(current, base, edited) : edited;
+    await saveMemory(updatedItem, 'user', revertOf);
     setMemories(prev => prev.map(m => m.id === updatedItem.id ? updatedItem : m));
     if (selectedMemory?.id === updatedItem.id) {
         setSelectedMemory(updatedItem);
     }
+    // The memory may have moved to another collection
+    await loadCollections();
   };
 
-  // 3. Enhanced Resurface Feature with Contextual Intelligence
-  const handleResurface = async () => {
-    if (memories.length === 0) return;
-    setIsResurfacing(true);
-    setSearchQuery('');
-    
-    const now = Date.now();
-    const ONE_WEEK = 7 * 24 * 60 * 60 * 1000;
-    const ONE_MONTH = 30 * 24 * 60 * 60 * 1000;
-    
-    // Smart resurfacing: prioritize important memories that haven't been seen recently
-    const candidates = memories.map(m => {
-      const lastSeen = m.lastResurfaced || m.createdAt;
-      const age = now - lastSeen;
-      const importance = m.aiMetadata.importance || 0.5;
-      const resurfaceCount = m.resurfaceCount || 0;
-      
-      // Score based on:
-      // - Importance (higher = better)
-      // - Time since last seen (longer = better, but not too old)
-      // - Lower resurface count (show variety)
-      let score = importance;
-      
-      if (age > ONE_WEEK && age < ONE_MONTH) {
-        score += 0.3; // Sweet spot for resurfacing
-      } else if (age > ONE_MONTH) {
-        score += 0.2; // Old but still relevant
+  const handleRetryAnalysis = async (id: string) => {
+    try {
+      await reanalyzeMemories([id]);
+      const memory = await getMemory(id);
+      if (memory) setSelectedMemory(memory);
+      await loadMemories();
+    } catch (error) {
+      console.error("Failed to queue analysis:", error);
+      alert("Failed to queue analysis.");
+    }
+  };
+
+  const handleMoveToCollection = async (id: string, collectionName: string) => {
+    try {
+      const memory = await getMemory(id);
+      if (!memory?.aiMetadata || memory.aiMetadata.collection === collectionName) return;
+      await handleUpdate({ ...memory, aiMetadata: { ...memory.aiMetadata, collection: collectionName } });
+    } catch (error) {
+      console.error("Move failed:", error);
+      alert("Failed to move the memory.");
+    }
+  };
+
+  const handleRepair = async () => {
+    try {
+      const report = await repairIntegrity();
+      const fixes = report.orphanedLinks + report.asymmetricLinks + report.collectionsFixed;
+      if (fixes === 0) {
+        alert(`Checked ${report.memoriesChecked} memories. Everything is consistent.`);
+        return;
       }
-      
-      score -= resurfaceCount * 0.1; // Prefer less frequently shown
-      
-      return { memory: m, score };
-    });
-    
-    // Sort by score and take top 3-5
-    const selected = candidates
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 5)
-      .map(c => {
-        // Update resurface metadata
-        const updated = {
-          ...c.memory,
-          lastResurfaced: now,
-          resurfaceCount: (c.memory.resurfaceCount || 0) + 1
-        };
-        saveMemory(updated).catch(console.error);
-        return updated;
-      });
-    
-    setSearchResults(selected);
+      alert(
+        `Checked ${report.memoriesChecked} memories.\n` +
+        `Broken connections removed: ${report.orphanedLinks}\n` +
+        `One-sided connections completed: ${report.asymmetricLinks}\n` +
+        `Collections fixed: ${report.collectionsFixed}`
+      );
+      await loadMemories();
+    } catch (error) {
+      console.error("Repair failed:", error);
+      alert("Failed to check the database.");
+    }
   };
 
-  const clearResurface = () => {
-    setIsResurfacing(false);
-    setSearchResults(null);
-  }
+  // Archive Export / Import
+  const handleExport = async (ids?: string[]) => {
+    try {
+      const includeEmbeddings = window.confirm("Include embeddings in the export? The file gets larger, but nothing needs re-indexing on import.");
+      const archive = await exportArchive(includeEmbeddings, ids);
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `memory-export-${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Export failed:", error);
+      alert("Failed to export memories.");
+    }
+  };
 
-  // 4. Voice Input
+  const handleImport = async (file: File) => {
+    setIsProcessing(true);
+    try {
+      const overwrite = window.confirm("Overwrite local memories that conflict with the archive? Cancel keeps your local versions.");
+      const report = await importArchive(file, overwrite ? 'use-imported' : 'keep-local');
+      await loadMemories();
+      const skippedDetails = report.skipped.slice(0, 10).map(s => `\n- ${s.id}: ${s.reason}`).join('');
+      alert(
+        `Import finished.\nAdded: ${report.added.length}\nUpdated: ${report.updated.length}\n` +
+        `Conflicts: ${report.conflicts.length}\nSkipped: ${report.skipped.length}${skippedDetails}`
+      );
+    } catch (error) {
+      console.error("Import failed:", error);
+      alert(`Failed to import archive: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsProcessing(false);
+      if (archiveInputRef.current) archiveInputRef.current.value = '';
+    }
+  };
+
+  // 3. Voice Input
   const toggleListening = () => {
     const w = window as unknown as IWindow;
     const SpeechRecognition = w.SpeechRecognition || w.webkitSpeechRecognition;
@@ -492,7 +620,32 @@ const App: React.FC = () => {
   };
 
 
-  const displayMemories = searchResults || memories;
+  // Pinned memories lead the grid; search results keep their ranking
+  const displayMemories = searchResults || [...memories].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned));
+  const selectedMemories = displayMemories.filter(m => selectedIds.includes(m.id));
+  // Memories from a model other than the selected provider's
+  const staleCounts = countStale(memories);
+  const dueCount = memories.filter(m => isDue(m)).length;
+
+  const handleSelect = (item: MemoryItem, range: boolean) => {
+    const ids = displayMemories.map(m => m.id);
+    const anchor = selectionAnchorRef.current;
+    if (range && anchor && ids.includes(anchor)) {
+      const [from, to] = [ids.indexOf(anchor), ids.indexOf(item.id)].sort((a, b) => a - b);
+      setSelectedIds(prev => Array.from(new Set([...prev, ...ids.slice(from, to + 1)])));
+    } else {
+      setSelectedIds(prev => prev.includes(item.id) ? prev.filter(id => id !== item.id) : [...prev, item.id]);
+    }
+    selectionAnchorRef.current = item.id;
+  };
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+    selectionAnchorRef.current = null;
+  };
+  const openCollection = collections.find(c => c.name === selectedCollection);
+  const selectedCollectionPath = openCollection ? pathOf(openCollection, collections) : selectedCollection;
 
   // Show loading screen
   if (isLoading) {
@@ -531,7 +684,21 @@ const App: React.FC = () => {
               }}
             />
           </div>
-          <p className="mt-6 text-gray-500 dark:text-gray-400 text-sm font-medium">Loading your memories...</p>
+          <p className="mt-6 text-gray-500 dark:text-gray-400 text-sm font-medium">
+            {migrationProgress?.status === 'failed'
+              ? 'Upgrade failed. Your memories were left untouched.'
+              : migrationProgress && migrationProgress.status !== 'done'
+                ? `Upgrading your memories (${migrationProgress.index}/${migrationProgress.total}): ${migrationProgress.description}...`
+                : 'Loading your memories...'}
+          </p>
+          {migrationProgress?.status === 'failed' && (
+            <button
+              onClick={() => window.location.reload()}
+              className="mt-4 px-4 py-2 rounded-full bg-orange-500 text-white text-sm font-medium hover:bg-orange-600 transition-colors"
+            >
+              Reload
+            </button>
+          )}
         </motion.div>
       </div>
     );
@@ -600,7 +767,7 @@ const App: React.FC = () => {
         <div className="max-w-4xl mx-auto space-y-4">
           {/* Top Row: Logo and Actions */}
           <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
-              <div className="flex items-center gap-2 cursor-pointer" onClick={clearResurface}>
+              <div className="flex items-center gap-2 cursor-pointer" onClick={() => setSearchQuery('')}>
             <img 
               src="/onboarding_logo.jpg" 
               alt="Memory Logo" 
@@ -626,15 +793,110 @@ const App: React.FC = () => {
               )}
               
               <button 
-                onClick={handleResurface}
-                className={`p-2.5 rounded-xl transition-all duration-300 shadow-sm ${isResurfacing ? 'bg-orange-100 text-orange-600 ring-2 ring-orange-500/20' : 'bg-white dark:bg-dark-card text-gray-400 hover:text-orange-500 hover:shadow-md'}`}
-                title="Resurface forgotten memories"
+                onClick={() => setShowReview(true)}
+                className="relative p-2.5 rounded-xl transition-all duration-300 shadow-sm bg-white dark:bg-dark-card text-gray-400 hover:text-orange-500 hover:shadow-md"
+                title="Review memories due today"
               >
+                {dueCount > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-orange-500 text-white text-[10px] font-bold flex items-center justify-center">
+                    {dueCount > 99 ? '99+' : dueCount}
+                  </span>
+                )}
                 <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19.428 15.428a2 2 0 00-1.022-.547l-2.384-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z" />
                 </svg>
               </button>
 
+              <button
+                onClick={() => setShowAsk(true)}
+                className="p-2.5 rounded-xl bg-white dark:bg-dark-card text-gray-400 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white shadow-sm transition-all"
+                title="Ask your brain"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" /></svg>
+              </button>
+
+              <button
+                onClick={openDuplicates}
+                className="p-2.5 rounded-xl bg-white dark:bg-dark-card text-gray-400 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white shadow-sm transition-all"
+                title="Find duplicates"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+              </button>
+
+              <button
+                onClick={() => setShowTrash(true)}
+                className="p-2.5 rounded-xl bg-white dark:bg-dark-card text-gray-400 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white shadow-sm transition-all"
+                title="Trash"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+              </button>
+
+              <button
+                onClick={() => setShowTagManager(true)}
+                className="p-2.5 rounded-xl bg-white dark:bg-dark-card text-gray-400 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white shadow-sm transition-all"
+                title="Manage tags"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg>
+              </button>
+
+              <button
+                onClick={() => setShowTaxonomy(true)}
+                className="p-2.5 rounded-xl bg-white dark:bg-dark-card text-gray-400 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white shadow-sm transition-all"
+                title="Tag taxonomy"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" /></svg>
+              </button>
+
+              <button
+                onClick={handleRepair}
+                className="p-2.5 rounded-xl bg-white dark:bg-dark-card text-gray-400 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white shadow-sm transition-all"
+                title="Check and repair connections"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" /></svg>
+              </button>
+
+              {/* Export / Import */}
+              <button
+                  onClick={() => handleExport()}
+                  className="p-2.5 rounded-xl bg-white dark:bg-dark-card text-gray-400 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white shadow-sm transition-all"
+                  title="Export all memories"
+              >
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+              </button>
+              <label
+                  className={`p-2.5 rounded-xl bg-white dark:bg-dark-card text-gray-400 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white shadow-sm transition-all ${isProcessing ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                  title="Import memories from an archive"
+              >
+                  <input
+                      type="file"
+                      ref={archiveInputRef}
+                      className="hidden"
+                      accept=".zip,application/zip"
+                      onChange={(e) => {
+                          if (e.target.files?.[0]) handleImport(e.target.files[0]);
+                      }}
+                      disabled={isProcessing}
+                  />
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+              </label>
+
+              {/* AI Provider Toggle */}
+              <button
+                  onClick={toggleAIProvider}
+                  className={`px-3 py-2.5 rounded-xl text-xs font-bold uppercase tracking-wide shadow-sm transition-all ${aiProvider === 'local' ? 'bg-gray-900 dark:bg-white text-white dark:text-black' : 'bg-white dark:bg-dark-card text-gray-400 hover:text-gray-900 dark:hover:text-white'}`}
+                  title={aiProvider === 'local' ? 'Using offline local AI (click for Gemini)' : 'Using Gemini (click for offline local AI)'}
+              >
+                  {aiProvider === 'local' ? 'Local AI' : 'Gemini'}
+              </button>
+
+              <button
+                  onClick={configureFetchProxy}
+                  className="p-2.5 rounded-xl bg-white dark:bg-dark-card text-gray-400 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white shadow-sm transition-all"
+                  title="Link snapshot proxy"
+              >
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" /></svg>
+              </button>
+
               {/* Dark Mode Toggle */}
               <button
                   onClick={toggleTheme}
@@ -695,11 +957,22 @@ const App: React.FC = () => {
                 <input
                 type="text"
                 className="block w-full pl-10 pr-3 py-2.5 border border-transparent bg-white dark:bg-dark-card dark:text-white shadow-sm rounded-xl leading-5 text-gray-900 placeholder-gray-400 dark:placeholder-gray-600 focus:outline-none focus:bg-white dark:focus:bg-[#2c2c2e] focus:ring-2 focus:ring-orange-500/20 focus:border-orange-500 transition-all duration-200 sm:text-sm"
-                placeholder="Search by topic, mood, or color..."
+                placeholder="Search, or filter with type:pdf topic:design -mood:work..."
+                title={'Filters: type: topic: mood: color: collection: before: after:\nPrefix with - to exclude, join with OR, "quote" exact phrases'}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 />
             </div>
+            {activeView === 'memories' && (
+              <button
+                onClick={() => isSelecting ? exitSelection() : setIsSelecting(true)}
+                className={`px-4 py-2.5 rounded-xl text-sm font-medium shadow-sm transition-all ${
+                  isSelecting ? 'bg-black dark:bg-white text-white dark:text-black' : 'bg-white dark:bg-dark-card text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+                }`}
+              >
+                Select
+              </button>
+            )}
           </div>
         </div>
       </header>
@@ -713,15 +986,19 @@ const App: React.FC = () => {
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.1 }}
             className="mb-12 relative z-20"
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
         >
             <div className={`
                 relative bg-white/70 dark:bg-dark-card/70 backdrop-blur-xl rounded-[24px] shadow-soft dark:shadow-none border border-white/50 dark:border-white/10 p-2 transition-all duration-300
                 ${isProcessing ? 'opacity-80 scale-[0.99]' : 'hover:shadow-hover dark:hover:bg-dark-card/90'}
+                ${isDragging ? 'ring-2 ring-orange-500/40' : ''}
             `}>
                 <textarea
                     value={inputText}
                     onChange={(e) => setInputText(e.target.value)}
-                    placeholder={isProcessing ? "Analyzing & organizing..." : "Save a thought, link, image, or PDF..."}
+                    placeholder={isProcessing ? "Analyzing & organizing..." : "Save a thought, link, image, or PDF... or drop files and folders"}
                     className="w-full resize-none p-4 text-gray-800 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 bg-transparent border-none focus:ring-0 text-[16px] leading-relaxed min-h-[80px]"
                     disabled={isProcessing}
                     onKeyDown={(e) => {
@@ -734,19 +1011,38 @@ const App: React.FC = () => {
                 
                 <div className="flex justify-between items-center px-2 pb-2">
                     <div className="flex gap-1">
-                         <label className="p-2.5 text-gray-400 hover:text-orange-500 dark:hover:text-orange-400 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-full cursor-pointer transition-colors" title="Add Image or PDF">
+                         <label className="p-2.5 text-gray-400 hover:text-orange-500 dark:hover:text-orange-400 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-full cursor-pointer transition-colors" title="Add images, PDFs, notes or bookmark exports">
                             <input 
                                 type="file" 
                                 ref={fileInputRef}
                                 className="hidden" 
-                                accept="image/*,application/pdf"
+                                accept="image/*,application/pdf,.md,.markdown,.txt,.html,.htm,.csv,.json"
+                                multiple
                                 onChange={(e) => {
-                                    if(e.target.files?.[0]) handleSave(e.target.files[0]);
+                                    if (e.target.files?.length) handleFiles(Array.from(e.target.files as ArrayLike<File>).map(file => ({ file })));
+                                    e.target.value = '';
                                 }}
-                                disabled={isProcessing}
+                                disabled={isProcessing || isBatchRunning}
                             />
                             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" /></svg>
                         </label>
+
+                        <label className="p-2.5 text-gray-400 hover:text-orange-500 dark:hover:text-orange-400 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-full cursor-pointer transition-colors" title="Import a folder (images, PDFs or a Markdown vault)">
+                            <input
+                                type="file"
+                                className="hidden"
+                                multiple
+                                ref={(el) => el?.setAttribute('webkitdirectory', '')}
+                                onChange={(e) => {
+                                    if (e.target.files?.length) {
+                                        handleFiles(Array.from(e.target.files as ArrayLike<File>).map(file => ({ file, path: file.webkitRelativePath })));
+                                    }
+                                    e.target.value = '';
+                                }}
+                                disabled={isProcessing || isBatchRunning}
+                            />
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" /></svg>
+                        </label>
                         
                         <button 
                             onClick={toggleListening}
@@ -783,90 +1079,35 @@ const App: React.FC = () => {
             </div>
         </motion.div>
 
-        {/* Resurface Banner */}
+        {/* Re-index after a model change */}
         <AnimatePresence>
-            {isResurfacing && (
-                <motion.div 
-                    initial={{ height: 0, opacity: 0, marginBottom: 0 }}
-                    animate={{ height: 'auto', opacity: 1, marginBottom: 32 }}
-                    exit={{ height: 0, opacity: 0, marginBottom: 0 }}
-                    className="overflow-hidden"
-                >
-                    <div className="flex items-center justify-between">
-                         <h2 className="text-lg font-semibold text-gray-800 dark:text-white">
-                            ✨ Resurfaced from the past
-                         </h2>
-                         <button onClick={clearResurface} className="text-sm text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">Close</button>
-                    </div>
-                </motion.div>
+            {!isLoading && (reindexJob || staleCounts.embeddings > 0 || (staleCounts.analysis > 0 && !reanalysisDismissed)) && (
+                <ReindexBanner
+                    job={reindexJob}
+                    stale={staleCounts}
+                    onStart={startReindex}
+                    onCancel={cancelReindex}
+                    onDismiss={() => {
+                      dismissReanalysis();
+                      setReanalysisDismissed(true);
+                    }}
+                />
             )}
         </AnimatePresence>
 
         {/* Collections View */}
         {activeView === 'collections' && (
-          <div className="space-y-6">
-            {collections.length === 0 ? (
-              <motion.div 
-                initial={{ opacity: 0 }} 
-                animate={{ opacity: 1 }}
-                className="text-center py-20 opacity-40 dark:opacity-30"
-              >
-                <div className="mx-auto w-20 h-20 bg-gray-200 dark:bg-gray-800 rounded-full mb-6 flex items-center justify-center">
-                  <svg className="w-10 h-10 text-gray-400 dark:text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
-                  </svg>
-                </div>
-                <p className="text-gray-500 dark:text-gray-400 font-medium text-lg">No collections yet.</p>
-                <p className="text-gray-400 dark:text-gray-500 mt-2">Collections are automatically created as you save memories.</p>
-              </motion.div>
-            ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {collections.map(collection => {
-                  const collectionMemories = memories.filter(m => 
-                    m.aiMetadata.collection === collection.name
-                  );
-                  return (
-                    <motion.div
-                      key={collection.id}
-                      initial={{ opacity: 0, y: 20 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      whileHover={{ y: -4 }}
-                      onClick={() => {
-                        setSelectedCollection(collection.name);
-                        setActiveView('memories');
-                        setSearchResults(collectionMemories);
-                      }}
-                      className="bg-white dark:bg-dark-card rounded-2xl p-6 shadow-soft hover:shadow-xl cursor-pointer transition-all border border-transparent dark:border-dark-border"
-                    >
-                      <div className="flex items-start justify-between mb-4">
-                        <h3 className="text-lg font-bold text-gray-900 dark:text-white">
-                          {collection.name}
-                        </h3>
-                        <span className="text-xs font-bold text-gray-400 dark:text-gray-600 bg-gray-100 dark:bg-dark-border px-2 py-1 rounded-full">
-                          {collectionMemories.length}
-                        </span>
-                      </div>
-                      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4 line-clamp-2">
-                        {collection.description || `${collectionMemories.length} memories organized here`}
-                      </p>
-                      {collectionMemories.length > 0 && (
-                        <div className="flex -space-x-2">
-                          {collectionMemories.slice(0, 4).map(m => (
-                            <div key={m.id} className="w-8 h-8 rounded-full bg-gradient-to-br from-orange-400 to-pink-500 border-2 border-white dark:border-dark-card" />
-                          ))}
-                          {collectionMemories.length > 4 && (
-                            <div className="w-8 h-8 rounded-full bg-gray-200 dark:bg-gray-700 border-2 border-white dark:border-dark-card flex items-center justify-center text-xs font-bold text-gray-600 dark:text-gray-300">
-                              +{collectionMemories.length - 4}
-                            </div>
-                          )}
-                        </div>
-                      )}
-                    </motion.div>
-                  );
-                })}
-              </div>
-            )}
-          </div>
+          <CollectionsView
+            collections={collections}
+            memories={memories}
+            onOpen={(collection, members) => {
+              setSelectedCollection(collection.name);
+              setActiveView('memories');
+              setSearchResults(members);
+            }}
+            onMoveMemory={handleMoveToCollection}
+            onChange={loadMemories}
+          />
         )}
 
         {/* Insights View */}
@@ -957,7 +1198,7 @@ const App: React.FC = () => {
                 {selectedCollection && (
                   <div className="col-span-full mb-4 flex items-center justify-between">
                     <h2 className="text-lg font-semibold text-gray-800 dark:text-white">
-                      Collection: {selectedCollection}
+                      Collection: {selectedCollectionPath}
                     </h2>
                     <button 
                       onClick={() => { setSelectedCollection(null); setSearchResults(null); }}
@@ -969,18 +1210,142 @@ const App: React.FC = () => {
                 )}
                 <AnimatePresence>
                     {displayMemories.map(item => (
-                        <MemoryCard 
-                            key={item.id} 
-                            item={item} 
-                            onClick={setSelectedMemory}
-                            onDelete={handleDelete} 
-                        />
+                        <div
+                            key={item.id}
+                            draggable
+                            onDragStart={e => { e.dataTransfer.setData(MEMORY_DRAG_TYPE, item.id); setIsDraggingMemory(true); }}
+                            onDragEnd={() => setIsDraggingMemory(false)}
+                            className="break-inside-avoid"
+                        >
+                            <MemoryCard 
+                                item={item} 
+                                match={isSearchResult(item) ? item : undefined}
+                                onClick={openMemory}
+                                onDelete={handleDelete} 
+                                onSelect={isSelecting ? handleSelect : undefined}
+                                isSelected={selectedIds.includes(item.id)}
+                            />
+                        </div>
                     ))}
                 </AnimatePresence>
             </motion.div>
         ) : null}
       </main>
 
+      {/* Bulk Actions */}
+      <AnimatePresence>
+        {isSelecting && activeView === 'memories' && (
+            <BulkActionBar
+                selected={selectedMemories}
+                visibleCount={displayMemories.length}
+                collections={collections}
+                onSelectAll={() => setSelectedIds(displayMemories.map(m => m.id))}
+                onClear={() => setSelectedIds([])}
+                onExport={handleExport}
+                onChange={loadMemories}
+                onDone={exitSelection}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* Drag a memory onto a collection */}
+      <AnimatePresence>
+        {isDraggingMemory && (
+            <CollectionDropBar
+                collections={collections}
+                onDropMemory={handleMoveToCollection}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* Batch Import Progress */}
+      <AnimatePresence>
+        {batchItems && (
+            <BatchImportPanel
+                items={batchItems}
+                isRunning={isBatchRunning}
+                onCancel={() => batchHandleRef.current?.cancel()}
+                onRetryFailed={handleRetryFailed}
+                onClose={() => setBatchItems(null)}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* Duplicate Prompts */}
+      <AnimatePresence>
+        {duplicateCheck && (
+            <DuplicateDialog
+                matches={duplicateCheck.matches}
+                appendsText={!duplicateCheck.file && duplicateCheck.matches[0].memory.type === 'note'}
+                onResolve={handleResolveDuplicate}
+                onCancel={() => setDuplicateCheck(null)}
+            />
+        )}
+        {showDuplicates && (
+            <DuplicatesPanel
+                groups={duplicateGroups}
+                memories={memories}
+                onResolve={handleResolveGroup}
+                onClose={() => setShowDuplicates(false)}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* Trash */}
+      <AnimatePresence>
+        {showTrash && (
+            <TrashPanel
+                onChange={loadMemories}
+                onClose={() => setShowTrash(false)}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* Tag Manager */}
+      <AnimatePresence>
+        {showTagManager && (
+            <TagManager
+                memories={memories}
+                onChange={loadMemories}
+                onClose={() => setShowTagManager(false)}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* Tag Taxonomy */}
+      <AnimatePresence>
+        {showTaxonomy && (
+            <TagTaxonomyPanel
+                memories={memories}
+                onChange={loadTags}
+                onClose={() => setShowTaxonomy(false)}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* Spaced-repetition Review */}
+      <AnimatePresence>
+        {showReview && (
+            <ReviewPanel
+                memories={memories}
+                onOpen={setSelectedMemory}
+                onChange={loadMemories}
+                onClose={() => setShowReview(false)}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* Ask Your Brain */}
+      <AnimatePresence>
+        {showAsk && (
+            <AskPanel
+                memories={memories}
+                onOpenMemory={openMemory}
+                onClose={() => setShowAsk(false)}
+            />
+        )}
+      </AnimatePresence>
+
       {/* Detail Modal */}
       <AnimatePresence>
         {selectedMemory && (
@@ -990,7 +1355,10 @@ const App: React.FC = () => {
                 onClose={() => setSelectedMemory(null)}
                 onDelete={handleDelete}
                 onUpdate={handleUpdate}
-                onMemoryClick={setSelectedMemory}
+                onRetryAnalysis={handleRetryAnalysis}
+                collections={collections}
+                onMemoryClick={openMemory}
+                initialPage={selectedPage}
             />
         )}
       </AnimatePresence>
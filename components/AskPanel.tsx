@@ -0,0 +1,213 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChatMessage, MemoryItem } from '../types';
+import {
+  CITATION_PATTERN,
+  citedMemoryIds,
+  clearAskHistory,
+  findAnswerSources,
+  getStrictAnswers,
+  loadAskHistory,
+  saveAskHistory,
+  setStrictAnswers,
+  streamAnswer
+} from '../services/ask';
+
+interface AskPanelProps {
+  memories: MemoryItem[];
+  onOpenMemory: (memory: MemoryItem) => void;
+  onClose: () => void;
+}
+
+// Answer text with each [n] turned into a button that opens the cited memory
+const AnswerText: React.FC<{ message: ChatMessage, byId: Map<string, MemoryItem>, onOpenMemory: (memory: MemoryItem) => void }> = ({ message, byId, onOpenMemory }) => {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of message.text.matchAll(CITATION_PATTERN)) {
+    parts.push(message.text.slice(last, match.index));
+    match[1].split(',').forEach(raw => {
+      const n = Number(raw);
+      const memory = byId.get(message.sources?.[n - 1] || '');
+      parts.push(
+        <button
+          key={`${match.index}-${n}`}
+          disabled={!memory}
+          onClick={() => memory && onOpenMemory(memory)}
+          title={memory ? memory.aiMetadata.summary : 'This memory no longer exists'}
+          className="inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 align-text-top rounded-md text-[10px] font-bold bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-300 hover:bg-orange-200 dark:hover:bg-orange-900/50 disabled:opacity-40 transition-colors"
+        >
+          {n}
+        </button>
+      );
+    });
+    last = match.index! + match[0].length;
+  }
+  parts.push(message.text.slice(last));
+  return <>{parts}</>;
+};
+
+export const AskPanel: React.FC<AskPanelProps> = ({ memories, onOpenMemory, onClose }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>(loadAskHistory);
+  const [question, setQuestion] = useState('');
+  const [isAnswering, setIsAnswering] = useState(false);
+  const [strict, setStrict] = useState(getStrictAnswers);
+  const stopRequested = useRef(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const byId = new Map<string, MemoryItem>(memories.map(m => [m.id, m]));
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const toggleStrict = () => {
+    setStrictAnswers(!strict);
+    setStrict(!strict);
+  };
+
+  const handleClear = () => {
+    clearAskHistory();
+    setMessages([]);
+  };
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || isAnswering) return;
+
+    const history = messages;
+    const asked: ChatMessage = { id: crypto.randomUUID(), role: 'user', text, createdAt: Date.now() };
+    let answer: ChatMessage = { id: crypto.randomUUID(), role: 'assistant', text: '', sources: [], createdAt: Date.now() };
+    const update = (changes: Partial<ChatMessage>) => {
+      answer = { ...answer, ...changes };
+      setMessages(prev => prev.map(m => m.id === answer.id ? answer : m));
+    };
+
+    setMessages([...history, asked, answer]);
+    setQuestion('');
+    setIsAnswering(true);
+    stopRequested.current = false;
+
+    try {
+      const sources = await findAnswerSources(text, memories, history);
+      update({ sources: sources.map(m => m.id) });
+      for await (const chunk of streamAnswer(text, sources, history, strict)) {
+        if (stopRequested.current) break;
+        update({ text: answer.text + chunk });
+      }
+      if (!answer.text) {
+        update({ error: stopRequested.current ? 'Stopped.' : 'No answer came back. Try rephrasing the question.' });
+      }
+    } catch (error) {
+      console.error("Ask failed:", error);
+      update({ error: "Couldn't reach the AI. Check your connection and try again." });
+    } finally {
+      setIsAnswering(false);
+      saveAskHistory([...history, asked, answer]);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-white/60 dark:bg-black/60 backdrop-blur-xl"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.95, opacity: 0, y: 20 }}
+        className="bg-white dark:bg-dark-card w-full max-w-2xl h-[85vh] rounded-3xl shadow-2xl border border-gray-100 dark:border-dark-border flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 pb-4 border-b border-gray-100 dark:border-dark-border">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">Ask your brain</h2>
+            <label className="flex items-center gap-2 mt-1 text-xs text-gray-500 dark:text-gray-400 cursor-pointer">
+              <input type="checkbox" checked={strict} onChange={toggleStrict} className="accent-orange-500" />
+              Only answer from my memories
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            {messages.length > 0 && !isAnswering && (
+              <button onClick={handleClear} className="px-3 py-1.5 rounded-lg text-xs font-semibold text-gray-500 hover:text-gray-900 dark:hover:text-white transition-colors">
+                Clear
+              </button>
+            )}
+            <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-white/10 transition-colors">
+              <svg className="w-5 h-5 text-gray-500 dark:text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {messages.length === 0 && (
+            <p className="text-center text-gray-400 dark:text-gray-500 py-10">
+              Ask anything about what you've saved, like "What did I read about sleep?"
+            </p>
+          )}
+          {messages.map(message => message.role === 'user' ? (
+            <div key={message.id} className="flex justify-end">
+              <p className="max-w-[80%] px-4 py-2.5 rounded-2xl rounded-br-md bg-black dark:bg-white text-white dark:text-black text-sm whitespace-pre-wrap">
+                {message.text}
+              </p>
+            </div>
+          ) : (
+            <div key={message.id} className="max-w-[90%] space-y-2">
+              <div className="px-4 py-3 rounded-2xl rounded-bl-md bg-gray-50 dark:bg-white/5 text-sm text-gray-800 dark:text-gray-100 leading-relaxed whitespace-pre-wrap">
+                {message.error ? (
+                  <span className="text-red-500">{message.error}</span>
+                ) : message.text ? (
+                  <AnswerText message={message} byId={byId} onOpenMemory={onOpenMemory} />
+                ) : (
+                  <span className="text-gray-400 animate-pulse">Thinking...</span>
+                )}
+              </div>
+              {citedMemoryIds(message).length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {citedMemoryIds(message).map(id => {
+                    const memory = byId.get(id);
+                    if (!memory) return null;
+                    return (
+                      <button
+                        key={id}
+                        onClick={() => onOpenMemory(memory)}
+                        className="max-w-[14rem] truncate px-2.5 py-1 rounded-full text-[11px] font-medium bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                      >
+                        {message.sources!.indexOf(id) + 1}. {memory.aiMetadata.summary || memory.content}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+          <div ref={bottomRef} />
+        </div>
+
+        <form onSubmit={handleAsk} className="flex gap-2 p-4 border-t border-gray-100 dark:border-dark-border">
+          <input
+            autoFocus
+            value={question}
+            onChange={e => setQuestion(e.target.value)}
+            placeholder="Ask a question..."
+            className="flex-1 px-4 py-2.5 rounded-xl bg-gray-50 dark:bg-white/5 text-sm text-gray-900 dark:text-white placeholder-gray-400 outline-none focus:ring-2 focus:ring-orange-500/30"
+          />
+          {isAnswering ? (
+            <button type="button" onClick={() => { stopRequested.current = true; }} className="px-4 py-2.5 rounded-xl text-sm font-semibold bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 transition-colors">
+              Stop
+            </button>
+          ) : (
+            <button type="submit" disabled={!question.trim()} className="px-4 py-2.5 rounded-xl text-sm font-semibold bg-black dark:bg-white text-white dark:text-black disabled:opacity-40 transition-all">
+              Ask
+            </button>
+          )}
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+};
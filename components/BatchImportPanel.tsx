@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { BatchImportItem, BatchItemStatus } from '../types';
+import { retryableItems } from '../services/batchImport';
+
+interface BatchImportPanelProps {
+  items: BatchImportItem[];
+  isRunning: boolean;
+  onCancel: () => void;
+  onRetryFailed: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400',
+  saving: 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400',
+  analyzing: 'bg-orange-50 dark:bg-orange-900/20 text-orange-600 dark:text-orange-400',
+  done: 'bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400',
+  deferred: 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-400',
+  duplicate: 'bg-purple-50 dark:bg-purple-900/20 text-purple-600 dark:text-purple-400',
+  failed: 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400',
+  cancelled: 'bg-gray-100 dark:bg-gray-800 text-gray-400 dark:text-gray-500'
+};
+
+const MAX_LISTED = 200;
+
+const FINISHED: BatchItemStatus[] = ['done', 'deferred', 'duplicate', 'failed', 'cancelled'];
+
+export const BatchImportPanel: React.FC<BatchImportPanelProps> = ({ items, isRunning, onCancel, onRetryFailed, onClose }) => {
+  const [expanded, setExpanded] = useState(true);
+
+  const count = (status: BatchItemStatus) => items.filter(i => i.status === status).length;
+  const finished = items.filter(i => FINISHED.includes(i.status)).length;
+  const failed = items.filter(i => i.status === 'failed' || i.status === 'deferred');
+  const progress = items.length > 0 ? finished / items.length : 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="fixed bottom-4 right-4 z-[90] w-[calc(100%-2rem)] sm:w-96 bg-white dark:bg-dark-card rounded-2xl shadow-2xl border border-gray-100 dark:border-dark-border overflow-hidden"
+    >
+      <div className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <button onClick={() => setExpanded(!expanded)} className="text-left">
+            <p className="text-sm font-semibold text-gray-900 dark:text-white">
+              {isRunning ? `Importing ${finished}/${items.length}...` : `Imported ${count('done')} of ${items.length}`}
+            </p>
+            <p className="text-xs text-gray-400 dark:text-gray-500">
+              {count('deferred')} waiting for AI · {count('failed')} failed
+              {count('duplicate') > 0 ? ` · ${count('duplicate')} duplicates skipped` : ''}
+              {count('cancelled') > 0 ? ` · ${count('cancelled')} cancelled` : ''}
+            </p>
+          </button>
+          <div className="flex gap-2">
+            {isRunning ? (
+              <button onClick={onCancel} className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
+                Cancel
+              </button>
+            ) : (
+              <>
+                {retryableItems(items).length > 0 && (
+                  <button onClick={onRetryFailed} className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-orange-500 text-white hover:bg-orange-600 transition-colors">
+                    Retry failed
+                  </button>
+                )}
+                <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
+                  Close
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="h-1.5 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+          <div className="h-full bg-orange-500 transition-all duration-300" style={{ width: `${progress * 100}%` }} />
+        </div>
+
+        {expanded && (
+          <ul className="max-h-60 overflow-y-auto space-y-1 -mx-1 px-1">
+            {items.slice(0, MAX_LISTED).map(item => (
+              <li key={item.id} className="flex items-center justify-between gap-3 text-xs">
+                <span className="truncate text-gray-600 dark:text-gray-300" title={item.path}>{item.path}</span>
+                <span className={`shrink-0 px-2 py-0.5 rounded-full font-semibold capitalize ${STATUS_STYLES[item.status]}`}>
+                  {item.status}{item.attempts > 1 && !FINISHED.includes(item.status) ? ` (try ${item.attempts})` : ''}
+                </span>
+              </li>
+            ))}
+            {items.length > MAX_LISTED && (
+              <li className="text-xs text-gray-400">and {items.length - MAX_LISTED} more</li>
+            )}
+          </ul>
+        )}
+
+        {/* Failure summary */}
+        {!isRunning && failed.length > 0 && (
+          <div className="rounded-xl bg-red-50/60 dark:bg-red-900/10 p-3 space-y-1">
+            <p className="text-xs font-semibold text-red-600 dark:text-red-400">Needs attention</p>
+            {failed.slice(0, 20).map(item => (
+              <p key={item.id} className="text-xs text-gray-600 dark:text-gray-400 truncate" title={item.error}>
+                <span className="font-medium">{item.path}</span>: {item.error}
+              </p>
+            ))}
+            {failed.length > 20 && (
+              <p className="text-xs text-gray-400">and {failed.length - 20} more</p>
+            )}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
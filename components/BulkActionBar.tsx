@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Collection, MemoryItem } from '../types';
+import { addLabels, moveToCollection, removeLabels, setPinned, trashMemories } from '../services/bulkActions';
+import { reanalyzeMemories } from '../services/captureQueue';
+import { pathOf } from '../services/taxonomy';
+
+interface BulkActionBarProps {
+  selected: MemoryItem[];
+  visibleCount: number; // Memories in the grid, for "Select all"
+  collections: Collection[];
+  onSelectAll: () => void;
+  onClear: () => void;
+  onExport: (ids: string[]) => void;
+  onChange: () => void; // Memories were changed
+  onDone: () => void; // Leave selection mode
+}
+
+const buttonClass = "px-3 py-1.5 rounded-lg text-xs font-semibold text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-white/10 disabled:opacity-40 transition-colors whitespace-nowrap";
+const selectClass = "px-2 py-1.5 rounded-lg text-xs font-semibold bg-transparent text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-white/10 outline-none cursor-pointer disabled:opacity-40";
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({ selected, visibleCount, collections, onSelectAll, onClear, onExport, onChange, onDone }) => {
+  const [isBusy, setIsBusy] = useState(false);
+  const ids = selected.map(m => m.id);
+  const allPinned = selected.length > 0 && selected.every(m => m.pinned);
+  // Tags on any selected memory, for removal
+  const selectedTags = Array.from(new Map<string, string>(selected.flatMap(m => m.aiMetadata.topics).map(t => [t.toLowerCase(), t])).values())
+    .sort((a, b) => a.localeCompare(b));
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      onChange();
+    } catch (error) {
+      console.error(failure, error);
+      alert(failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAddTags = () => {
+    const input = window.prompt(`Add tags to ${selected.length} memories (comma separated):`);
+    const tags = input?.split(',').map(t => t.trim()).filter(Boolean) || [];
+    if (tags.length > 0) run(() => addLabels(ids, 'topics', tags), "Failed to add tags.");
+  };
+
+  const handleReanalyze = () => {
+    if (!window.confirm(`Analyze ${selected.length} memories again? Their tags and collection are kept.`)) return;
+    run(() => reanalyzeMemories(ids), "Failed to queue analysis.");
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Move ${selected.length} memories to the trash?`)) return;
+    run(async () => {
+      await trashMemories(ids);
+      onClear();
+    }, "Failed to move memories to the trash.");
+  };
+
+  const disabled = isBusy || selected.length === 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[80] max-w-[95vw] flex items-center gap-1 overflow-x-auto p-2 rounded-2xl bg-white/90 dark:bg-dark-card/90 backdrop-blur-xl shadow-2xl border border-gray-100 dark:border-dark-border"
+    >
+      <span className="px-3 text-sm font-semibold text-gray-900 dark:text-white whitespace-nowrap">{selected.length} selected</span>
+      {selected.length < visibleCount ? (
+        <button onClick={onSelectAll} disabled={isBusy} className={buttonClass}>Select all {visibleCount}</button>
+      ) : (
+        <button onClick={onClear} disabled={isBusy} className={buttonClass}>Clear</button>
+      )}
+      <span className="w-px h-5 bg-gray-200 dark:bg-dark-border mx-1" />
+      <button onClick={handleAddTags} disabled={disabled} className={buttonClass}>Add tags</button>
+      <select
+        value=""
+        onChange={e => run(() => removeLabels(ids, 'topics', [e.target.value]), "Failed to remove the tag.")}
+        disabled={disabled || selectedTags.length === 0}
+        className={selectClass}
+      >
+        <option value="">Remove tag</option>
+        {selectedTags.map(t => <option key={t} value={t}>{t}</option>)}
+      </select>
+      <select
+        value=""
+        onChange={e => run(() => moveToCollection(ids, e.target.value), "Failed to move memories.")}
+        disabled={disabled}
+        className={selectClass}
+      >
+        <option value="">Move to</option>
+        {collections.map(c => <option key={c.id} value={c.name}>{pathOf(c, collections)}</option>)}
+      </select>
+      <button onClick={() => run(() => setPinned(ids, !allPinned), "Failed to update pins.")} disabled={disabled} className={buttonClass}>
+        {allPinned ? 'Unpin' : 'Pin'}
+      </button>
+      <button onClick={handleReanalyze} disabled={disabled} className={buttonClass}>Re-analyze</button>
+      <button onClick={() => onExport(ids)} disabled={disabled} className={buttonClass}>Export</button>
+      <button onClick={handleDelete} disabled={disabled} className="px-3 py-1.5 rounded-lg text-xs font-semibold text-red-500 hover:bg-red-50 dark:hover:bg-red-900/10 disabled:opacity-40 transition-colors">Delete</button>
+      <span className="w-px h-5 bg-gray-200 dark:bg-dark-border mx-1" />
+      <button onClick={onDone} className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-black dark:bg-white text-white dark:text-black whitespace-nowrap">Done</button>
+    </motion.div>
+  );
+};
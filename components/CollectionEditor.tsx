@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Collection } from '../types';
+import { deleteCollection, mergeCollections, renameCollection, saveCollection } from '../services/db';
+import { COLLECTION_COLORS, createCollection } from '../services/collections';
+import { createsCycle, pathOf } from '../services/taxonomy';
+
+interface CollectionEditorProps {
+  collection?: Collection; // Missing when creating a new collection
+  collections: Collection[];
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+export const CollectionEditor: React.FC<CollectionEditorProps> = ({ collection, collections, onSaved, onClose }) => {
+  const [name, setName] = useState(collection?.name || '');
+  const [description, setDescription] = useState(collection?.description || '');
+  const [color, setColor] = useState(collection?.color);
+  const [parentId, setParentId] = useState(collection?.parentId || '');
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const others = collections.filter(c => c.id !== collection?.id);
+  // A collection can't be nested inside itself or one of its sub-collections
+  const parentOptions = others.filter(c => !collection || !createsCycle(collection.id, c.id, collections));
+  const isGeneral = collection?.name === 'General';
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    try {
+      await action();
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error("Collection update failed:", error);
+      alert(errorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    const fields = { description: description.trim() || undefined, color, parentId: parentId || undefined };
+    run(async () => {
+      if (!collection) {
+        await createCollection({ name, ...fields });
+        return;
+      }
+      await saveCollection({ ...collection, ...fields });
+      // Renaming refiles the members, so it runs on the record just saved
+      if (name.trim() !== collection.name) await renameCollection(collection.id, name);
+    });
+  };
+
+  const handleMerge = () => {
+    const target = others.find(c => c.id === mergeTargetId);
+    if (!collection || !target) return;
+    if (!window.confirm(`Move every memory in "${collection.name}" to "${target.name}" and remove "${collection.name}"?`)) return;
+    run(() => mergeCollections(target.id, [collection.id]));
+  };
+
+  const handleDelete = () => {
+    if (!collection) return;
+    if (!window.confirm(`Delete "${collection.name}"? Its memories move to General.`)) return;
+    run(() => deleteCollection(collection.id));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-white/60 dark:bg-black/60 backdrop-blur-xl"
+      onClick={onClose}
+    >
+      <motion.form
+        initial={{ scale: 0.95, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.95, opacity: 0, y: 20 }}
+        onSubmit={handleSave}
+        onClick={e => e.stopPropagation()}
+        className="bg-white dark:bg-dark-card w-full max-w-md rounded-3xl shadow-2xl border border-gray-100 dark:border-dark-border p-6 space-y-5"
+      >
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white">{collection ? 'Edit collection' : 'New collection'}</h2>
+
+        <input
+          autoFocus
+          value={name}
+          onChange={e => setName(e.target.value)}
+          disabled={isGeneral}
+          placeholder="Name"
+          className="w-full px-4 py-2.5 rounded-xl bg-gray-50 dark:bg-white/5 text-sm text-gray-900 dark:text-white placeholder-gray-400 outline-none focus:ring-2 focus:ring-orange-500/30 disabled:opacity-50"
+        />
+        <textarea
+          value={description}
+          onChange={e => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          className="w-full h-20 px-4 py-2.5 rounded-xl bg-gray-50 dark:bg-white/5 text-sm text-gray-900 dark:text-white placeholder-gray-400 outline-none focus:ring-2 focus:ring-orange-500/30 resize-none"
+        />
+        <select
+          value={parentId}
+          onChange={e => setParentId(e.target.value)}
+          className="w-full px-4 py-2.5 rounded-xl bg-gray-50 dark:bg-white/5 text-sm text-gray-700 dark:text-gray-200 outline-none"
+        >
+          <option value="">Top level</option>
+          {parentOptions.map(c => <option key={c.id} value={c.id}>Inside {pathOf(c, collections)}</option>)}
+        </select>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => setColor(undefined)}
+            className={`w-7 h-7 rounded-full border-2 border-dashed border-gray-300 dark:border-gray-600 ${!color ? 'ring-2 ring-offset-2 ring-gray-400 dark:ring-offset-dark-card' : ''}`}
+            title="No color"
+          />
+          {COLLECTION_COLORS.map(c => (
+            <button
+              key={c}
+              type="button"
+              onClick={() => setColor(c)}
+              className={`w-7 h-7 rounded-full ${color === c ? 'ring-2 ring-offset-2 ring-gray-400 dark:ring-offset-dark-card' : ''}`}
+              style={{ backgroundColor: c }}
+            />
+          ))}
+        </div>
+
+        {collection && !isGeneral && others.length > 0 && (
+          <div className="flex gap-2 pt-4 border-t border-gray-100 dark:border-dark-border">
+            <select
+              value={mergeTargetId}
+              onChange={e => setMergeTargetId(e.target.value)}
+              className="flex-1 px-3 py-2 rounded-xl bg-gray-50 dark:bg-white/5 text-sm text-gray-700 dark:text-gray-200 outline-none"
+            >
+              <option value="">Merge into...</option>
+              {others.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+            <button
+              type="button"
+              onClick={handleMerge}
+              disabled={!mergeTargetId || isSaving}
+              className="px-4 py-2 rounded-xl text-sm font-semibold bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 disabled:opacity-40 transition-colors"
+            >
+              Merge
+            </button>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between pt-2">
+          {collection && !isGeneral ? (
+            <button type="button" onClick={handleDelete} disabled={isSaving} className="text-sm font-semibold text-red-500 hover:text-red-600 disabled:opacity-40">
+              Delete
+            </button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-semibold text-gray-500 hover:text-gray-900 dark:hover:text-white transition-colors">
+              Cancel
+            </button>
+            <button type="submit" disabled={!name.trim() || isSaving} className="px-4 py-2 rounded-xl text-sm font-semibold bg-black dark:bg-white text-white dark:text-black disabled:opacity-40 transition-all">
+              {collection ? 'Save' : 'Create'}
+            </button>
+          </div>
+        </div>
+      </motion.form>
+    </motion.div>
+  );
+};
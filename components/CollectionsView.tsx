@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Collection, MemoryItem } from '../types';
+import { mergeCollections } from '../services/db';
+import { reorderCollections, suggestCollectionMerges } from '../services/collections';
+import { CollectionEditor } from './CollectionEditor';
+import { ancestorsOf, descendantsOf } from '../services/taxonomy';
+
+// dataTransfer types for dragging memory cards and collection cards
+export const MEMORY_DRAG_TYPE = 'application/x-memory-id';
+const COLLECTION_DRAG_TYPE = 'application/x-collection-id';
+
+interface CollectionsViewProps {
+  collections: Collection[];
+  memories: MemoryItem[];
+  onOpen: (collection: Collection, members: MemoryItem[]) => void;
+  onMoveMemory: (memoryId: string, collectionName: string) => void;
+  onChange: () => void;
+}
+
+export const CollectionsView: React.FC<CollectionsViewProps> = ({ collections, memories, onOpen, onMoveMemory, onChange }) => {
+  const [editing, setEditing] = useState<Collection | 'new' | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [dismissedMerges, setDismissedMerges] = useState<string[]>([]);
+
+  const mergeSuggestions = suggestCollectionMerges(collections)
+    .filter(s => !dismissedMerges.includes(`${s.target.id}:${s.source.id}`));
+
+  const handleMerge = async (target: Collection, source: Collection) => {
+    try {
+      await mergeCollections(target.id, [source.id]);
+      onChange();
+    } catch (error) {
+      console.error("Merge failed:", error);
+      alert("Failed to merge collections.");
+    }
+  };
+
+  const handleDrop = async (e: React.DragEvent, target: Collection) => {
+    e.preventDefault();
+    setDropTargetId(null);
+    const memoryId = e.dataTransfer.getData(MEMORY_DRAG_TYPE);
+    if (memoryId) {
+      onMoveMemory(memoryId, target.name);
+      return;
+    }
+    // A collection dropped on another takes its place
+    const draggedId = e.dataTransfer.getData(COLLECTION_DRAG_TYPE);
+    const dragged = collections.find(c => c.id === draggedId);
+    if (!dragged || dragged.id === target.id) return;
+    const ordered = collections.filter(c => c.id !== dragged.id);
+    ordered.splice(ordered.indexOf(target), 0, dragged);
+    try {
+      await reorderCollections(ordered);
+      onChange();
+    } catch (error) {
+      console.error("Reorder failed:", error);
+      alert("Failed to reorder collections.");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-400 dark:text-gray-500">Drag collections to reorder them.</p>
+        <button
+          onClick={() => setEditing('new')}
+          className="px-4 py-2 rounded-xl text-sm font-semibold bg-black dark:bg-white text-white dark:text-black shadow-sm transition-all"
+        >
+          New collection
+        </button>
+      </div>
+
+      {mergeSuggestions.map(({ target, source }) => (
+        <div key={`${target.id}:${source.id}`} className="flex items-center justify-between gap-3 p-4 rounded-2xl bg-orange-50 dark:bg-orange-900/10 border border-orange-100 dark:border-orange-900/30 text-sm">
+          <span className="text-gray-700 dark:text-gray-200">
+            "{source.name}" looks like "{target.name}". Merge them?
+          </span>
+          <div className="flex gap-2 shrink-0">
+            <button onClick={() => setDismissedMerges(prev => [...prev, `${target.id}:${source.id}`])} className="px-3 py-1.5 rounded-lg text-xs font-semibold text-gray-500 hover:text-gray-900 dark:hover:text-white transition-colors">
+              Keep both
+            </button>
+            <button onClick={() => handleMerge(target, source)} className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-black dark:bg-white text-white dark:text-black transition-colors">
+              Merge into "{target.name}"
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {collections.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="text-center py-20 opacity-40 dark:opacity-30"
+        >
+          <div className="mx-auto w-20 h-20 bg-gray-200 dark:bg-gray-800 rounded-full mb-6 flex items-center justify-center">
+            <svg className="w-10 h-10 text-gray-400 dark:text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+            </svg>
+          </div>
+          <p className="text-gray-500 dark:text-gray-400 font-medium text-lg">No collections yet.</p>
+          <p className="text-gray-400 dark:text-gray-500 mt-2">Collections are automatically created as you save memories.</p>
+        </motion.div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {collections.map(collection => {
+            // Sub-collections' memories count towards their parents
+            const memberIds = new Set(descendantsOf(collection, collections).flatMap(c => c.memoryIds));
+            const collectionMemories = memories.filter(m => memberIds.has(m.id));
+            const parents = ancestorsOf(collection, collections).reverse();
+            return (
+              <div
+                key={collection.id}
+                draggable
+                onDragStart={e => e.dataTransfer.setData(COLLECTION_DRAG_TYPE, collection.id)}
+                onDragOver={e => { e.preventDefault(); setDropTargetId(collection.id); }}
+                onDragLeave={() => setDropTargetId(null)}
+                onDrop={e => handleDrop(e, collection)}
+              >
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  whileHover={{ y: -4 }}
+                  onClick={() => onOpen(collection, collectionMemories)}
+                  className={`h-full bg-white dark:bg-dark-card rounded-2xl p-6 shadow-soft hover:shadow-xl cursor-pointer transition-all border dark:border-dark-border
+                    ${dropTargetId === collection.id ? 'border-orange-400 ring-2 ring-orange-500/30' : 'border-transparent'}`}
+                  style={collection.color ? { borderTop: `4px solid ${collection.color}` } : undefined}
+                >
+                  <div className="flex items-start justify-between mb-4">
+                    <div>
+                      {parents.length > 0 && (
+                        <p className="text-xs font-medium text-gray-400 dark:text-gray-500">{parents.map(c => c.name).join(' / ')} /</p>
+                      )}
+                      <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+                        {collection.name}
+                      </h3>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={e => { e.stopPropagation(); setEditing(collection); }}
+                        className="p-1 text-gray-300 hover:text-gray-600 dark:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                        title="Edit collection"
+                      >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
+                      </button>
+                      <span className="text-xs font-bold text-gray-400 dark:text-gray-600 bg-gray-100 dark:bg-dark-border px-2 py-1 rounded-full">
+                        {collectionMemories.length}
+                      </span>
+                    </div>
+                  </div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-4 line-clamp-2">
+                    {collection.description || `${collectionMemories.length} memories organized here`}
+                  </p>
+                  {collectionMemories.length > 0 && (
+                    <div className="flex -space-x-2">
+                      {collectionMemories.slice(0, 4).map(m => (
+                        <div key={m.id} className="w-8 h-8 rounded-full bg-gradient-to-br from-orange-400 to-pink-500 border-2 border-white dark:border-dark-card" />
+                      ))}
+                      {collectionMemories.length > 4 && (
+                        <div className="w-8 h-8 rounded-full bg-gray-200 dark:bg-gray-700 border-2 border-white dark:border-dark-card flex items-center justify-center text-xs font-bold text-gray-600 dark:text-gray-300">
+                          +{collectionMemories.length - 4}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </motion.div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <AnimatePresence>
+        {editing && (
+          <CollectionEditor
+            collection={editing === 'new' ? undefined : editing}
+            collections={collections}
+            onSaved={onChange}
+            onClose={() => setEditing(null)}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+interface CollectionDropBarProps {
+  collections: Collection[];
+  onDropMemory: (memoryId: string, collectionName: string) => void;
+}
+
+// Shown while a memory card is dragged in the grid; dropping on a chip files the memory there
+export const CollectionDropBar: React.FC<CollectionDropBarProps> = ({ collections, onDropMemory }) => {
+  const [overName, setOverName] = useState<string | null>(null);
+
+  const drop = (e: React.DragEvent, name: string | null) => {
+    e.preventDefault();
+    setOverName(null);
+    const memoryId = e.dataTransfer.getData(MEMORY_DRAG_TYPE);
+    const target = name ?? window.prompt("New collection name")?.trim();
+    if (memoryId && target) onDropMemory(memoryId, target);
+  };
+
+  const chip = (key: string, label: string, name: string | null, color?: string) => (
+    <div
+      key={key}
+      onDragOver={e => { e.preventDefault(); setOverName(key); }}
+      onDragLeave={() => setOverName(null)}
+      onDrop={e => drop(e, name)}
+      className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all
+        ${overName === key ? 'bg-black dark:bg-white text-white dark:text-black scale-105' : 'bg-gray-100 dark:bg-white/10 text-gray-700 dark:text-gray-200'}`}
+    >
+      {color && <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />}
+      {label}
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[90] max-w-[90vw] flex gap-2 overflow-x-auto p-3 rounded-3xl bg-white/90 dark:bg-dark-card/90 backdrop-blur-xl shadow-2xl border border-gray-100 dark:border-dark-border"
+    >
+      {collections.map(c => chip(c.id, c.name, c.name, c.color))}
+      {chip('new', '+ New', null)}
+    </motion.div>
+  );
+};
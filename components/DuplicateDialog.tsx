@@ -0,0 +1,98 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { DuplicateMatch, DuplicateReason, DuplicateResolution, MemoryItem } from '../types';
+import { useAttachmentUrl } from '../hooks/useAttachmentUrl';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  url: 'Same link',
+  content: 'Same text',
+  attachment: 'Same file',
+  similar: 'Very similar'
+};
+
+// Compact row describing a memory inside the duplicate dialogs
+export const DuplicatePreview: React.FC<{ memory: MemoryItem, detail?: string }> = ({ memory, detail }) => {
+  const thumbnailUrl = useAttachmentUrl(memory.type === 'image' ? memory.attachmentId : undefined, 'thumbnail');
+
+  return (
+    <div className="flex items-center gap-3 p-3 rounded-xl bg-gray-50 dark:bg-white/5">
+      {thumbnailUrl ? (
+        <img src={thumbnailUrl} alt="" className="w-12 h-12 rounded-lg object-cover shrink-0" />
+      ) : (
+        <div className="w-12 h-12 rounded-lg bg-gray-200 dark:bg-gray-800 shrink-0 flex items-center justify-center text-[10px] font-bold uppercase text-gray-500 dark:text-gray-400">
+          {memory.type}
+        </div>
+      )}
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{memory.content}</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{memory.aiMetadata.summary}</p>
+        <p className="text-[11px] text-gray-400 dark:text-gray-500 mt-0.5">
+          {new Date(memory.createdAt).toLocaleDateString()}{detail ? ` · ${detail}` : ''}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+interface DuplicateDialogProps {
+  matches: DuplicateMatch[];
+  appendsText: boolean; // Whether merging adds the new note text to the existing memory
+  onResolve: (resolution: DuplicateResolution) => void;
+  onCancel: () => void;
+}
+
+export const DuplicateDialog: React.FC<DuplicateDialogProps> = ({ matches, appendsText, onResolve, onCancel }) => {
+  const exact = matches.some(m => m.reason !== 'similar');
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-white/60 dark:bg-black/60 backdrop-blur-xl"
+      onClick={onCancel}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.95, opacity: 0, y: 20 }}
+        className="bg-white dark:bg-dark-card w-full max-w-lg rounded-3xl shadow-2xl border border-gray-100 dark:border-dark-border p-6 space-y-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div>
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">
+            {exact ? 'You already saved this' : 'This looks like something you saved'}
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            {appendsText ? 'Merging adds your new text to the existing memory.' : 'Merging keeps the existing memory and saves nothing new.'}
+          </p>
+        </div>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {matches.map(match => (
+            <DuplicatePreview
+              key={match.memory.id}
+              memory={match.memory}
+              detail={`${DUPLICATE_REASON_LABELS[match.reason]}${match.reason === 'similar' ? ` (${Math.round(match.similarity * 100)}%)` : ''}`}
+            />
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2 justify-end pt-2">
+          <button onClick={onCancel} className="px-4 py-2 rounded-full text-sm font-semibold text-gray-500 hover:text-gray-900 dark:hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button onClick={() => onResolve('keep')} className="px-4 py-2 rounded-full text-sm font-semibold bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
+            Keep both
+          </button>
+          <button onClick={() => onResolve('link')} className="px-4 py-2 rounded-full text-sm font-semibold bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
+            Save &amp; link
+          </button>
+          <button onClick={() => onResolve('merge')} className="px-4 py-2 rounded-full text-sm font-semibold bg-black dark:bg-white text-white dark:text-black shadow-lg hover:scale-105 active:scale-95 transition-all">
+            Merge
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { DuplicateGroup, DuplicateResolution, MemoryItem } from '../types';
+import { DUPLICATE_REASON_LABELS, DuplicatePreview } from './DuplicateDialog';
+
+interface DuplicatesPanelProps {
+  groups: DuplicateGroup[] | null; // null while the sweep is running
+  memories: MemoryItem[];
+  onResolve: (group: DuplicateGroup, resolution: DuplicateResolution) => void;
+  onClose: () => void;
+}
+
+export const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({ groups, memories, onResolve, onClose }) => {
+  const byId = new Map<string, MemoryItem>(memories.map(m => [m.id, m]));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-white/60 dark:bg-black/60 backdrop-blur-xl"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.95, opacity: 0, y: 20 }}
+        className="bg-white dark:bg-dark-card w-full max-w-2xl max-h-[85vh] rounded-3xl shadow-2xl border border-gray-100 dark:border-dark-border flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 pb-4">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">Duplicates</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {groups === null ? 'Scanning your memories...' : `${groups.length} group${groups.length === 1 ? '' : 's'} found`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-white/10 transition-colors">
+            <svg className="w-5 h-5 text-gray-500 dark:text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="overflow-y-auto px-6 pb-6 space-y-4">
+          {groups === null && (
+            <div className="flex justify-center py-10">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+            </div>
+          )}
+          {groups?.length === 0 && (
+            <p className="text-center text-gray-400 dark:text-gray-500 py-10">No duplicates. Your brain is tidy.</p>
+          )}
+          {groups?.map(group => {
+            const members = group.memoryIds.map(id => byId.get(id)).filter((m): m is MemoryItem => !!m);
+            if (members.length < 2) return null;
+            return (
+              <div key={group.memoryIds.join()} className="rounded-2xl border border-gray-100 dark:border-dark-border p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-bold uppercase tracking-wide text-gray-400">
+                    {DUPLICATE_REASON_LABELS[group.reason]} · {members.length} memories
+                    {group.reason === 'similar' ? ` · ${Math.round(group.similarity * 100)}%` : ''}
+                  </span>
+                  <div className="flex gap-2">
+                    <button onClick={() => onResolve(group, 'keep')} className="px-3 py-1.5 rounded-lg text-xs font-semibold text-gray-500 hover:text-gray-900 dark:hover:text-white transition-colors">
+                      Keep all
+                    </button>
+                    <button onClick={() => onResolve(group, 'link')} className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
+                      Link
+                    </button>
+                    <button onClick={() => onResolve(group, 'merge')} className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-black dark:bg-white text-white dark:text-black transition-colors">
+                      Merge into oldest
+                    </button>
+                  </div>
+                </div>
+                {members.map(memory => (
+                  <DuplicatePreview key={memory.id} memory={memory} />
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -1,15 +1,56 @@
-import React, { useState } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
-import { MemoryItem } from '../types';
+import React, { useRef, useState } from 'react';
+import { motion, AnimatePresence, useInView } from 'framer-motion';
+import { MatchSpan, MemoryItem, SearchResult } from '../types';
+import { useAttachmentUrl } from '../hooks/useAttachmentUrl';
+import { analyzeText } from '../services/textIndex';
+import { SEARCH_TUNING } from '../services/search';
+import { linkUrl } from '../services/snapshot';
 
 interface MemoryCardProps {
   item: MemoryItem;
+  match?: SearchResult; // Present when the card is shown as a search hit
   onClick: (item: MemoryItem) => void;
   onDelete: (id: string) => void;
+  onSelect?: (item: MemoryItem, range: boolean) => void; // Selection mode: clicks select instead of open; shift-click selects a range
+  isSelected?: boolean;
 }
 
-export const MemoryCard: React.FC<MemoryCardProps> = ({ item, onClick, onDelete }) => {
+// Wraps the matched character ranges of `text` in <mark>
+const Highlighted: React.FC<{ text: string, spans: MatchSpan[] }> = ({ text, spans }) => {
+  if (spans.length === 0) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  spans.forEach((span, i) => {
+    if (span.start > cursor) parts.push(text.slice(cursor, span.start));
+    parts.push(
+      <mark key={i} className="bg-yellow-200/70 dark:bg-yellow-500/30 text-inherit rounded px-0.5">
+        {text.slice(span.start, span.end)}
+      </mark>
+    );
+    cursor = span.end;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+const BreakdownRow: React.FC<{ label: string, value: string, share: number }> = ({ label, value, share }) => (
+  <div>
+    <div className="flex justify-between text-[11px] text-gray-600 dark:text-gray-300">
+      <span>{label}</span>
+      <span className="font-mono">{value}</span>
+    </div>
+    <div className="h-1 mt-1 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+      <div className="h-full bg-orange-400 rounded-full" style={{ width: `${Math.round(share * 100)}%` }} />
+    </div>
+  </div>
+);
+
+export const MemoryCard: React.FC<MemoryCardProps> = ({ item, match, onClick, onDelete, onSelect, isSelected }) => {
   const [isConfirming, setIsConfirming] = useState(false);
+  const [showWhy, setShowWhy] = useState(false);
+  const cardRef = useRef<HTMLDivElement>(null);
+  // Only pull the thumbnail out of IndexedDB once the card scrolls near the viewport
+  const isNearViewport = useInView(cardRef, { once: true, margin: '200px' });
 
   const getDomain = (url: string) => {
     try {
@@ -20,8 +61,21 @@ export const MemoryCard: React.FC<MemoryCardProps> = ({ item, onClick, onDelete
   };
 
   const isLink = item.type === 'link';
-  const hasImage = item.type === 'image' && !!item.imageData;
+  const hasImage = item.type === 'image' && !!item.attachmentId;
   const isPdf = item.type === 'pdf';
+  const isPending = item.status === 'pending';
+  const thumbnailUrl = useAttachmentUrl(hasImage ? item.attachmentId : undefined, 'thumbnail', isNearViewport);
+
+  const contentSpans = match?.spans.filter(s => s.field === 'content') || [];
+  const summarySpans = match?.spans.filter(s => s.field === 'summary') || [];
+  const passageSpans = match?.spans.filter(s => s.field === 'passage') || [];
+  const isMatchedTag = (tag: string) =>
+    !!match && analyzeText(tag).some(term => match.matchedTerms.includes(term));
+
+  const handleWhyClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowWhy(prev => !prev);
+  };
 
   const handleDeleteClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -35,23 +89,26 @@ export const MemoryCard: React.FC<MemoryCardProps> = ({ item, onClick, onDelete
 
   return (
     <motion.div 
+      ref={cardRef}
       layout
       initial={{ opacity: 0, scale: 0.95, y: 20 }}
       animate={{ opacity: 1, scale: 1, y: 0 }}
       exit={{ opacity: 0, scale: 0.9, transition: { duration: 0.2 } }}
       whileHover={{ y: -6, transition: { duration: 0.2 } }}
-      onClick={() => onClick(item)}
-      className="break-inside-avoid mb-6 relative group rounded-[20px] bg-white dark:bg-dark-card shadow-soft hover:shadow-xl dark:shadow-none dark:hover:bg-[#2c2c2e] overflow-hidden transition-all duration-300 cursor-pointer border border-transparent dark:border-dark-border"
+      onClick={e => onSelect ? onSelect(item, e.shiftKey) : onClick(item)}
+      className={`break-inside-avoid mb-6 relative group rounded-[20px] bg-white dark:bg-dark-card shadow-soft hover:shadow-xl dark:shadow-none dark:hover:bg-[#2c2c2e] overflow-hidden transition-all duration-300 cursor-pointer border border-transparent dark:border-dark-border
+                 ${onSelect ? 'select-none' : ''} ${isSelected ? 'ring-2 ring-orange-500' : ''}`}
     >
       {/* Image Header */}
       {hasImage && (
-        <div className="w-full relative overflow-hidden">
-          <img 
-            src={item.imageData} 
-            alt="Memory" 
-            className="w-full h-auto object-cover max-h-[400px] transition-transform duration-700 ease-out group-hover:scale-105"
-            loading="lazy"
-          />
+        <div className="w-full relative overflow-hidden min-h-[120px] bg-gray-50 dark:bg-gray-800">
+          {thumbnailUrl && (
+            <img 
+              src={thumbnailUrl} 
+              alt="Memory" 
+              className="w-full h-auto object-cover max-h-[400px] transition-transform duration-700 ease-out group-hover:scale-105"
+            />
+          )}
           <div className="absolute bottom-0 left-0 right-0 h-24 bg-gradient-to-t from-black/50 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
           
           <div className="absolute bottom-3 right-3 flex -space-x-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300 delay-100">
@@ -81,6 +138,22 @@ export const MemoryCard: React.FC<MemoryCardProps> = ({ item, onClick, onDelete
       <div className="p-6">
         {/* Metadata Badges - Icons + Pills */}
         <div className="flex flex-wrap gap-2 mb-4">
+          {item.pinned && (
+            <span className="inline-flex items-center gap-1 px-2.5 py-1 text-[10px] uppercase tracking-wider font-bold text-orange-600 bg-orange-50 dark:bg-orange-900/30 dark:text-orange-300 rounded-full">
+              Pinned
+            </span>
+          )}
+          {isPending && (
+            <span className="inline-flex items-center gap-1.5 px-2.5 py-1 text-[10px] uppercase tracking-wider font-bold text-amber-600 bg-amber-50 dark:bg-amber-900/30 dark:text-amber-300 rounded-full" title="Saved. AI analysis will run when it's reachable.">
+              <span className="w-1.5 h-1.5 rounded-full bg-amber-400 animate-pulse"></span>
+              Analyzing
+            </span>
+          )}
+          {item.status === 'failed' && (
+            <span className="inline-flex items-center gap-1 px-2.5 py-1 text-[10px] uppercase tracking-wider font-bold text-red-600 bg-red-50 dark:bg-red-900/30 dark:text-red-300 rounded-full" title={`${item.analysisError || 'Analysis failed'}. Open the memory to retry.`}>
+              Not analyzed
+            </span>
+          )}
           {item.aiMetadata.mood.slice(0, 1).map((m) => (
             <span key={m} className="inline-flex items-center gap-1 px-2.5 py-1 text-[10px] uppercase tracking-wider font-bold text-indigo-600 bg-indigo-50 dark:bg-indigo-900/30 dark:text-indigo-300 rounded-full">
               <span className="w-1.5 h-1.5 rounded-full bg-indigo-400 dark:bg-indigo-300"></span>
@@ -88,7 +161,7 @@ export const MemoryCard: React.FC<MemoryCardProps> = ({ item, onClick, onDelete
             </span>
           ))}
           {item.aiMetadata.topics.slice(0, 2).map((t) => (
-            <span key={t} className="inline-flex items-center gap-1 px-2.5 py-1 text-[10px] uppercase tracking-wider font-bold text-emerald-600 bg-emerald-50 dark:bg-emerald-900/30 dark:text-emerald-300 rounded-full">
+            <span key={t} className={`inline-flex items-center gap-1 px-2.5 py-1 text-[10px] uppercase tracking-wider font-bold text-emerald-600 bg-emerald-50 dark:bg-emerald-900/30 dark:text-emerald-300 rounded-full ${isMatchedTag(t) ? 'ring-2 ring-yellow-300 dark:ring-yellow-500/50' : ''}`}>
               {t}
             </span>
           ))}
@@ -102,65 +175,156 @@ export const MemoryCard: React.FC<MemoryCardProps> = ({ item, onClick, onDelete
                     <span>{item.content}</span>
                 </div>
             ) : (
-                item.content
+                <Highlighted text={item.content} spans={contentSpans} />
             )}
         </div>
 
         {/* AI Summary */}
         <div className="pt-4 border-t border-gray-100 dark:border-dark-border">
           <p className="text-xs text-gray-500 dark:text-dark-subtext font-serif italic leading-relaxed">
-            {item.aiMetadata.summary}
+            <Highlighted text={item.aiMetadata.summary} spans={summarySpans} />
           </p>
         </div>
 
+        {/* Matching PDF passage */}
+        {match?.passage && (
+          <div className="mt-4 p-3 rounded-xl bg-red-50/50 dark:bg-red-900/10 border border-red-100/60 dark:border-red-900/20">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-red-400 mb-1">Page {match.passage.page}</p>
+            <p className="text-xs text-gray-600 dark:text-gray-300 leading-relaxed line-clamp-4">
+              <Highlighted text={match.passage.text} spans={passageSpans} />
+            </p>
+          </div>
+        )}
+
         {/* Footer info */}
         <div className="mt-5 flex justify-between items-center text-[10px] font-bold text-gray-400 dark:text-gray-600 uppercase tracking-widest">
            <span>{new Date(item.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}</span>
-           {isLink && <span className="bg-gray-100 dark:bg-dark-border px-2 py-1 rounded text-gray-500 dark:text-gray-400">{getDomain(item.content)}</span>}
-           {isPdf && <span className="text-red-400 dark:text-red-400/80">Document</span>}
+           {isLink && (
+             <span className="flex items-center gap-1.5">
+               {item.linkHealth?.dead && (
+                 <span
+                   className="bg-red-50 dark:bg-red-900/20 px-2 py-1 rounded text-red-500 dark:text-red-400"
+                   title={`${item.linkHealth.error || 'Unavailable'} · checked ${new Date(item.linkHealth.checkedAt).toLocaleDateString()}`}
+                 >
+                   Dead link
+                 </span>
+               )}
+               <span className="bg-gray-100 dark:bg-dark-border px-2 py-1 rounded text-gray-500 dark:text-gray-400">{getDomain(linkUrl(item))}</span>
+             </span>
+           )}
+           {isPdf && <span className="text-red-400 dark:text-red-400/80">{item.pageCount ? `${item.pageCount} pages` : 'Document'}</span>}
         </div>
       </div>
 
+      {/* Why This Matched */}
+      {match && (
+        <div className="absolute top-3 left-3 z-20" onClick={e => e.stopPropagation()}>
+          <button
+            onClick={handleWhyClick}
+            className="h-8 px-2.5 flex items-center gap-1 rounded-full shadow-lg bg-white/90 dark:bg-black/50 backdrop-blur-md border border-gray-100 dark:border-dark-border text-[10px] font-bold uppercase tracking-wide text-orange-500"
+            title="Why this matched"
+          >
+            {Math.round(match.score * 100)}%
+          </button>
+          <AnimatePresence>
+            {showWhy && (
+              <motion.div
+                initial={{ opacity: 0, y: -4 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -4 }}
+                className="absolute left-0 mt-2 w-60 p-4 space-y-3 rounded-2xl bg-white dark:bg-dark-card shadow-xl border border-gray-100 dark:border-dark-border cursor-default"
+              >
+                <p className="text-[10px] font-bold uppercase tracking-widest text-gray-400">Why this matched</p>
+                <BreakdownRow
+                  label="Semantic similarity"
+                  value={match.breakdown.semantic.toFixed(2)}
+                  share={match.breakdown.contributions.semantic}
+                />
+                <BreakdownRow
+                  label="Recency boost"
+                  value={`+${match.breakdown.recency.toFixed(2)}`}
+                  share={match.breakdown.recency / SEARCH_TUNING.recencyWeight}
+                />
+                <BreakdownRow
+                  label="Keyword (BM25)"
+                  value={match.breakdown.keyword.toFixed(2)}
+                  share={match.breakdown.contributions.keyword}
+                />
+                <BreakdownRow
+                  label="Exact tag"
+                  value={match.breakdown.exactTag ? 'yes' : 'no'}
+                  share={match.breakdown.contributions.exactTag}
+                />
+                {isPdf && (
+                  <BreakdownRow
+                    label="PDF passage"
+                    value={match.breakdown.passage.toFixed(2)}
+                    share={match.breakdown.contributions.passage}
+                  />
+                )}
+                {match.matchedTerms.length > 0 && (
+                  <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                    Matched: {match.matchedTerms.join(', ')}
+                  </p>
+                )}
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+      )}
+
+      {/* Selection Check */}
+      {onSelect && (
+        <div
+          className={`absolute top-3 right-3 z-20 w-7 h-7 rounded-full border-2 flex items-center justify-center shadow-lg transition-colors
+                     ${isSelected ? 'bg-orange-500 border-orange-500 text-white' : 'bg-white/90 dark:bg-black/50 border-gray-300 dark:border-gray-600 text-transparent'}`}
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>
+        </div>
+      )}
+
       {/* Two-Step Delete Action */}
-      <motion.button 
-        onClick={handleDeleteClick}
-        initial={false}
-        animate={{ 
-          width: isConfirming ? 80 : 32,
-          backgroundColor: isConfirming ? '#EF4444' : 'var(--bg-overlay, rgba(255, 255, 255, 0.9))',
-          color: isConfirming ? '#FFFFFF' : '#EF4444'
-        }}
-        className={`absolute top-3 right-3 h-8 flex items-center justify-center rounded-full shadow-lg border border-gray-100 dark:border-dark-border z-20 
-                   transition-all duration-300 cursor-pointer overflow-hidden backdrop-blur-md dark:bg-black/50
-                   ${isConfirming ? 'opacity-100' : 'opacity-100 sm:opacity-0 sm:group-hover:opacity-100 sm:translate-y-2 sm:group-hover:translate-y-0'}
-                   `}
-        title={isConfirming ? "Confirm Delete" : "Delete memory"}
-      >
-        <AnimatePresence mode="wait">
-          {isConfirming ? (
-            <motion.span 
-              key="confirm"
-              initial={{ opacity: 0, y: 10 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -10 }}
-              className="text-[10px] font-bold uppercase tracking-wide whitespace-nowrap px-2"
-            >
-              Confirm
-            </motion.span>
-          ) : (
-            <motion.svg 
-              key="trash"
-              initial={{ opacity: 0, scale: 0.5 }}
-              animate={{ opacity: 1, scale: 1 }}
-              exit={{ opacity: 0, scale: 0.5 }}
-              className="w-4 h-4 min-w-[16px]" 
-              fill="none" viewBox="0 0 24 24" stroke="currentColor"
-            >
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-            </motion.svg>
-          )}
-        </AnimatePresence>
-      </motion.button>
+      {!onSelect && (
+        <motion.button 
+          onClick={handleDeleteClick}
+          initial={false}
+          animate={{ 
+            width: isConfirming ? 80 : 32,
+            backgroundColor: isConfirming ? '#EF4444' : 'var(--bg-overlay, rgba(255, 255, 255, 0.9))',
+            color: isConfirming ? '#FFFFFF' : '#EF4444'
+          }}
+          className={`absolute top-3 right-3 h-8 flex items-center justify-center rounded-full shadow-lg border border-gray-100 dark:border-dark-border z-20 
+                     transition-all duration-300 cursor-pointer overflow-hidden backdrop-blur-md dark:bg-black/50
+                     ${isConfirming ? 'opacity-100' : 'opacity-100 sm:opacity-0 sm:group-hover:opacity-100 sm:translate-y-2 sm:group-hover:translate-y-0'}
+                     `}
+          title={isConfirming ? "Confirm move to trash" : "Move to trash"}
+        >
+          <AnimatePresence mode="wait">
+            {isConfirming ? (
+              <motion.span 
+                key="confirm"
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+                className="text-[10px] font-bold uppercase tracking-wide whitespace-nowrap px-2"
+              >
+                Confirm
+              </motion.span>
+            ) : (
+              <motion.svg 
+                key="trash"
+                initial={{ opacity: 0, scale: 0.5 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.5 }}
+                className="w-4 h-4 min-w-[16px]" 
+                fill="none" viewBox="0 0 24 24" stroke="currentColor"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </motion.svg>
+            )}
+          </AnimatePresence>
+        </motion.button>
+      )}
     </motion.div>
   );
 };
\ No newline at end of file
@@ -1,17 +1,26 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { MemoryItem } from '../types';
+import { Collection, MemoryItem, Revision } from '../types';
+import { useAttachmentUrl } from '../hooks/useAttachmentUrl';
+import { ReaderView } from './ReaderView';
+import { RevisionHistory } from './RevisionHistory';
+import { revertRevision } from '../services/revisions';
+import { pathOf } from '../services/taxonomy';
+import { formatInterval, withReviewSuspended } from '../services/review';
 
 interface MemoryDetailProps {
   item: MemoryItem;
   allMemories?: MemoryItem[];
+  collections?: Collection[];
   onClose: () => void;
   onDelete: (id: string) => void;
-  onUpdate: (item: MemoryItem) => void;
+  onUpdate: (item: MemoryItem, revertOf?: string) => void;
   onMemoryClick?: (item: MemoryItem) => void;
+  onRetryAnalysis?: (id: string) => void; // Queue a memory whose analysis failed again
+  initialPage?: number; // PDFs: page to open at, e.g. where a search passage matched
 }
 
-export const MemoryDetail: React.FC<MemoryDetailProps> = ({ item, allMemories = [], onClose, onDelete, onUpdate, onMemoryClick }) => {
+export const MemoryDetail: React.FC<MemoryDetailProps> = ({ item, allMemories = [], collections = [], onClose, onDelete, onUpdate, onMemoryClick, onRetryAnalysis, initialPage }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editedSummary, setEditedSummary] = useState(item.aiMetadata.summary);
   const [newTopic, setNewTopic] = useState('');
@@ -47,12 +56,19 @@ export const MemoryDetail: React.FC<MemoryDetailProps> = ({ item, allMemories =
     }
   };
 
+  const handleRevert = (revision: Revision) => {
+    const reverted = revertRevision(item, revision);
+    setEditedSummary(reverted.aiMetadata.summary);
+    onUpdate(reverted, revision.id);
+  };
+
   const copyToClipboard = () => {
     navigator.clipboard.writeText(item.content);
   };
 
-  const isImage = item.type === 'image' && item.imageData;
+  const isImage = item.type === 'image' && item.attachmentId;
   const isPdf = item.type === 'pdf';
+  const attachmentUrl = useAttachmentUrl(item.attachmentId);
   const isLink = item.type === 'link';
 
   return (
@@ -81,35 +97,28 @@ export const MemoryDetail: React.FC<MemoryDetailProps> = ({ item, allMemories =
         <div className="w-full md:w-3/5 bg-gray-50 dark:bg-black/40 flex items-center justify-center relative overflow-hidden">
           {isImage ? (
              <div className="w-full h-full overflow-y-auto custom-scrollbar flex items-center justify-center p-4">
-               <img src={item.imageData} alt="Memory" className="max-w-full max-h-full object-contain shadow-sm" />
+               {attachmentUrl && <img src={attachmentUrl} alt="Memory" className="max-w-full max-h-full object-contain shadow-sm" />}
              </div>
           ) : isPdf ? (
             <div className="w-full h-full flex flex-col">
-               {item.imageData ? (
+               {attachmentUrl ? (
                  <iframe 
-                    src={`${item.imageData}#toolbar=0&view=FitH`} 
+                    key={initialPage}
+                    src={`${attachmentUrl}#${initialPage ? `page=${initialPage}&` : ''}toolbar=0&view=FitH`} 
                     className="w-full h-full border-0" 
                     title="PDF Preview"
                  />
                ) : (
                  <div className="flex flex-col items-center justify-center h-full text-gray-400">
                     <svg className="w-16 h-16 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
-                    <p>PDF Content Unavailable</p>
+                    <p>{item.attachmentId ? 'Loading PDF...' : 'PDF Content Unavailable'}</p>
                  </div>
                )}
             </div>
           ) : (
              <div className="p-10 w-full h-full max-w-2xl overflow-y-auto custom-scrollbar flex items-center justify-center">
                 {isLink ? (
-                  <div className="text-center">
-                    <a href={item.content} target="_blank" rel="noopener noreferrer" className="text-3xl font-bold text-blue-600 dark:text-blue-400 hover:underline break-words">
-                      {item.content}
-                    </a>
-                    <div className="mt-8 text-left prose prose-lg dark:prose-invert text-gray-600 dark:text-gray-300">
-                         <h3 className="text-sm uppercase tracking-wide text-gray-400 font-semibold mb-2">Analysis</h3>
-                         <p>{item.aiMetadata.summary}</p>
-                    </div>
-                  </div>
+                  <ReaderView item={item} onUpdate={onUpdate} />
                 ) : (
                   <div className="prose prose-xl dark:prose-invert text-gray-800 dark:text-gray-100 whitespace-pre-wrap font-serif leading-loose">
                     {item.content}
@@ -134,12 +143,25 @@ export const MemoryDetail: React.FC<MemoryDetailProps> = ({ item, allMemories =
                </div>
              </div>
 
+             {item.status === 'failed' && (
+               <div className="mb-6 p-4 rounded-xl bg-red-50 dark:bg-red-900/10 flex items-center justify-between gap-3">
+                 <p className="text-sm text-red-600 dark:text-red-400">
+                   Analysis failed{item.analysisError ? `: ${item.analysisError}` : ''}
+                 </p>
+                 {onRetryAnalysis && (
+                   <button onClick={() => onRetryAnalysis(item.id)} className="text-xs font-semibold text-red-600 dark:text-red-400 hover:underline whitespace-nowrap">
+                     Retry
+                   </button>
+                 )}
+               </div>
+             )}
+
              {/* Summary Section */}
              <div className="mb-8">
                <div className="flex justify-between items-baseline mb-3">
                   <h3 className="text-sm font-bold uppercase tracking-wider text-gray-900 dark:text-white">AI Summary</h3>
                   {!isEditing ? (
-                    <button onClick={() => setIsEditing(true)} className="text-xs text-orange-500 hover:text-orange-600 font-medium">Edit</button>
+                    <button onClick={() => { setEditedSummary(item.aiMetadata.summary); setIsEditing(true); }} className="text-xs text-orange-500 hover:text-orange-600 font-medium">Edit</button>
                   ) : (
                     <button onClick={handleSave} className="text-xs text-green-600 font-medium">Save</button>
                   )}
@@ -252,14 +274,45 @@ export const MemoryDetail: React.FC<MemoryDetailProps> = ({ item, allMemories =
              )}
 
              {/* Collection */}
-             {item.aiMetadata.collection && (
+             {item.status !== 'pending' && (
                <div className="mb-8">
                  <h3 className="text-sm font-bold uppercase tracking-wider text-gray-900 dark:text-white mb-3">Collection</h3>
-                 <span className="inline-block px-3 py-1.5 bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300 text-sm font-medium rounded-lg">
-                   {item.aiMetadata.collection}
-                 </span>
+                 <select
+                   value={item.aiMetadata.collection || 'General'}
+                   onChange={e => onUpdate({ ...item, aiMetadata: { ...item.aiMetadata, collection: e.target.value } })}
+                   className="px-3 py-1.5 bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300 text-sm font-medium rounded-lg outline-none cursor-pointer"
+                 >
+                   {!collections.some(c => c.name === (item.aiMetadata.collection || 'General')) && (
+                     <option value={item.aiMetadata.collection || 'General'}>{item.aiMetadata.collection || 'General'}</option>
+                   )}
+                   {collections.map(c => <option key={c.id} value={c.name}>{pathOf(c, collections)}</option>)}
+                 </select>
                </div>
              )}
+
+             {/* Spaced repetition */}
+             {item.status !== 'pending' && (
+               <div className="mb-8">
+                 <h3 className="text-sm font-bold uppercase tracking-wider text-gray-900 dark:text-white mb-3">Review</h3>
+                 <div className="flex items-center justify-between gap-3">
+                   <p className="text-sm text-gray-500 dark:text-gray-400">
+                     {item.review?.suspended
+                       ? 'Left out of reviews'
+                       : item.review?.lastReviewedAt
+                         ? `Next review ${new Date(item.review.due).toLocaleDateString()} · every ${formatInterval(item.review.interval)}${item.review.lapses > 0 ? ` · forgotten ${item.review.lapses}×` : ''}`
+                         : 'Not reviewed yet'}
+                   </p>
+                   <button
+                     onClick={() => onUpdate(withReviewSuspended(item, !item.review?.suspended))}
+                     className="text-xs font-semibold text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors whitespace-nowrap"
+                   >
+                     {item.review?.suspended ? 'Include in reviews' : 'Leave out of reviews'}
+                   </button>
+                 </div>
+               </div>
+             )}
+
+             <RevisionHistory item={item} onRevert={handleRevert} />
            </div>
 
            {/* Delete Zone */}
@@ -269,7 +322,7 @@ export const MemoryDetail: React.FC<MemoryDetailProps> = ({ item, allMemories =
                className="w-full py-3 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/10 rounded-xl transition-colors text-sm font-semibold flex items-center justify-center gap-2"
              >
                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
-               Delete Memory
+               Move to Trash
              </button>
            </div>
 
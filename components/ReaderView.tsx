@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { LinkSnapshot, MemoryItem } from '../types';
+import { getSnapshot } from '../services/db';
+import { captureSnapshot, linkUrl } from '../services/snapshot';
+import { checkLink, findArchivedCopy } from '../services/linkHealth';
+
+const Block: React.FC<{ text: string }> = ({ text }) => {
+  if (text.startsWith('## ')) {
+    return <h3 className="text-xl font-bold text-gray-900 dark:text-white mt-8 mb-3 font-sans">{text.slice(3)}</h3>;
+  }
+  if (text.startsWith('- ')) {
+    return <p className="pl-5 relative before:content-['•'] before:absolute before:left-0 before:text-gray-400 mb-2">{text.slice(2)}</p>;
+  }
+  return <p className="mb-5">{text}</p>;
+};
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Result of the last link rot check, with fallbacks once the page is gone
+const LinkStatus: React.FC<{ item: MemoryItem, hasSnapshot: boolean, onUpdate: (item: MemoryItem) => void }> = ({ item, hasSnapshot, onUpdate }) => {
+  const [isChecking, setIsChecking] = useState(false);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const health = item.linkHealth;
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    setMessage(null);
+    try {
+      onUpdate({ ...item, linkHealth: await checkLink(linkUrl(item), item.linkHealth) });
+    } catch (error) {
+      console.error("Link check failed:", error);
+      setMessage(errorMessage(error));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleFindArchive = async () => {
+    setIsLookingUp(true);
+    setMessage(null);
+    try {
+      const archived = await findArchivedCopy(linkUrl(item), item.createdAt);
+      if (archived) window.open(archived, '_blank', 'noopener');
+      else setMessage('The Wayback Machine has no copy of this page.');
+    } catch (error) {
+      console.error("Archive lookup failed:", error);
+      setMessage(errorMessage(error));
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const checkButton = (
+    <button onClick={handleCheck} disabled={isChecking} className="font-semibold text-gray-500 hover:text-gray-900 dark:hover:text-white disabled:opacity-50 transition-colors">
+      {isChecking ? 'Checking...' : health ? 'Check again' : 'Check now'}
+    </button>
+  );
+
+  if (health?.dead) {
+    return (
+      <div className="mb-6 p-4 rounded-2xl bg-red-50 dark:bg-red-900/10 border border-red-100 dark:border-red-900/30 text-left text-sm space-y-2">
+        <p className="font-semibold text-red-600 dark:text-red-400">This page is gone</p>
+        <p className="text-gray-600 dark:text-gray-300">
+          {health.error || 'Unavailable'} · checked {new Date(health.checkedAt).toLocaleDateString()}.
+          {hasSnapshot ? ' The copy saved below is what the page said when you saved it.' : ''}
+        </p>
+        <div className="flex gap-4 text-xs">
+          <button onClick={handleFindArchive} disabled={isLookingUp} className="font-semibold text-orange-600 dark:text-orange-400 hover:underline disabled:opacity-50">
+            {isLookingUp ? 'Looking up...' : 'Find archived copy'}
+          </button>
+          {checkButton}
+        </div>
+        {message && <p className="text-xs text-gray-500">{message}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 text-left text-xs text-gray-400 space-y-1">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        <span>
+          {health
+            ? `Checked ${new Date(health.checkedAt).toLocaleDateString()}: ${health.status === 0 ? "couldn't reach the site" : `HTTP ${health.status}`}`
+            : 'Link not checked yet'}
+        </span>
+        {health?.redirected && health.finalUrl && <span className="break-all">Redirects to {health.finalUrl}</span>}
+        {checkButton}
+      </div>
+      {message && <p>{message}</p>}
+    </div>
+  );
+};
+
+interface ReaderViewProps {
+  item: MemoryItem;
+  onUpdate: (item: MemoryItem) => void;
+}
+
+// Stored copy of a link's page; offers to capture one when it's missing
+export const ReaderView: React.FC<ReaderViewProps> = ({ item, onUpdate }) => {
+  const [snapshot, setSnapshot] = useState<LinkSnapshot | null | undefined>(undefined);
+  const [heroUrl, setHeroUrl] = useState<string | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [captureError, setCaptureError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSnapshot(undefined);
+    getSnapshot(item.id)
+      .then(result => { if (!cancelled) setSnapshot(result || null); })
+      .catch(error => {
+        console.error(error);
+        if (!cancelled) setSnapshot(null);
+      });
+    return () => { cancelled = true; };
+  }, [item.id]);
+
+  useEffect(() => {
+    if (!snapshot?.heroImage) return;
+    const url = URL.createObjectURL(snapshot.heroImage);
+    setHeroUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setHeroUrl(null);
+    };
+  }, [snapshot]);
+
+  const handleCapture = async () => {
+    setIsCapturing(true);
+    setCaptureError(null);
+    try {
+      setSnapshot(await captureSnapshot(item.id, linkUrl(item)));
+    } catch (error) {
+      console.error("Snapshot failed:", error);
+      setCaptureError(errorMessage(error));
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  if (snapshot === undefined) {
+    return (
+      <div className="flex justify-center py-10">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+      </div>
+    );
+  }
+
+  const captureButton = (
+    <button
+      onClick={handleCapture}
+      disabled={isCapturing}
+      className="px-4 py-2 rounded-full text-sm font-semibold bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+    >
+      {isCapturing ? 'Saving copy...' : snapshot ? 'Update copy' : 'Save readable copy'}
+    </button>
+  );
+
+  if (!snapshot) {
+    return (
+      <div className="text-center">
+        <LinkStatus item={item} hasSnapshot={false} onUpdate={onUpdate} />
+        <a href={linkUrl(item)} target="_blank" rel="noopener noreferrer" className="text-3xl font-bold text-blue-600 dark:text-blue-400 hover:underline break-words">
+          {item.content}
+        </a>
+        <div className="mt-8 text-left prose prose-lg dark:prose-invert text-gray-600 dark:text-gray-300">
+          <h3 className="text-sm uppercase tracking-wide text-gray-400 font-semibold mb-2">Analysis</h3>
+          <p>{item.aiMetadata.summary}</p>
+        </div>
+        <div className="mt-8 space-y-2">
+          {captureButton}
+          {captureError && <p className="text-xs text-red-500">{captureError}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  const byline = [
+    snapshot.siteName,
+    snapshot.author,
+    snapshot.publishedAt && !isNaN(Date.parse(snapshot.publishedAt)) ? new Date(snapshot.publishedAt).toLocaleDateString() : undefined
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <article className="w-full self-start">
+      <LinkStatus item={item} hasSnapshot onUpdate={onUpdate} />
+      {heroUrl && <img src={heroUrl} alt="" className="w-full max-h-72 object-cover rounded-2xl mb-6" />}
+      {byline && <p className="text-xs font-bold uppercase tracking-widest text-gray-400 mb-2">{byline}</p>}
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white leading-tight mb-3">{snapshot.title}</h1>
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400 mb-8">
+        <a href={snapshot.finalUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline break-all">
+          {snapshot.finalUrl}
+        </a>
+        <span>Saved {new Date(snapshot.fetchedAt).toLocaleDateString()}</span>
+        {captureButton}
+      </div>
+      {captureError && <p className="text-xs text-red-500 -mt-6 mb-6">{captureError}</p>}
+      <div className="text-lg text-gray-800 dark:text-gray-100 font-serif leading-relaxed">
+        {snapshot.text.split('\n\n').map((block, i) => <Block key={i} text={block} />)}
+      </div>
+    </article>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ReindexJob, ReindexMode, StaleCounts } from '../types';
+
+interface ReindexBannerProps {
+  job: ReindexJob | null;
+  stale: StaleCounts;
+  onStart: (mode: ReindexMode) => void;
+  onCancel: () => void;
+  onDismiss: () => void; // Hide the re-analysis suggestion for now
+}
+
+const buttonClass = "px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors whitespace-nowrap";
+
+// Offers to refresh memories from an older model, and shows the job while it runs
+export const ReindexBanner: React.FC<ReindexBannerProps> = ({ job, stale, onStart, onCancel, onDismiss }) => {
+  const finished = job ? job.done + job.failed.length : 0;
+  const progress = job && job.total > 0 ? finished / job.total : 0;
+
+  return (
+    <motion.div
+      initial={{ height: 0, opacity: 0, marginBottom: 0 }}
+      animate={{ height: 'auto', opacity: 1, marginBottom: 24 }}
+      exit={{ height: 0, opacity: 0, marginBottom: 0 }}
+      className="overflow-hidden"
+    >
+      <div className="p-4 rounded-2xl bg-orange-50/60 dark:bg-orange-900/10 border border-orange-100 dark:border-orange-900/30 space-y-3">
+        {job ? (
+          <>
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                  {job.mode === 'embed' ? 'Re-embedding' : 'Re-analyzing'} memories · {finished} of {job.total}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {job.paused ? 'Paused until the AI provider is reachable' : 'Runs in the background and picks up where it left off after a reload'}
+                  {job.failed.length > 0 ? ` · ${job.failed.length} failed` : ''}
+                </p>
+              </div>
+              <button onClick={onCancel} className={`${buttonClass} bg-white dark:bg-dark-card text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-white/10`}>
+                Cancel
+              </button>
+            </div>
+            <div className="h-1.5 bg-white dark:bg-gray-800 rounded-full overflow-hidden">
+              <div className="h-full bg-orange-500 transition-all duration-300" style={{ width: `${progress * 100}%` }} />
+            </div>
+          </>
+        ) : (
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {stale.embeddings > 0
+                ? `${stale.embeddings} memories were embedded by a different model, so semantic search can't see them yet.`
+                : `${stale.analysis} memories were analyzed by an older model.`}
+            </p>
+            <div className="flex gap-2">
+              {stale.embeddings > 0 && (
+                <button onClick={() => onStart('embed')} className={`${buttonClass} bg-orange-500 text-white hover:bg-orange-600`}>
+                  Re-embed {stale.embeddings}
+                </button>
+              )}
+              {stale.analysis > 0 && (
+                <button
+                  onClick={() => onStart('analyze')}
+                  className={`${buttonClass} ${stale.embeddings > 0 ? 'bg-white dark:bg-dark-card text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-white/10' : 'bg-orange-500 text-white hover:bg-orange-600'}`}
+                  title="Summaries, tags and moods are written again; your own tags and collections are kept"
+                >
+                  Re-analyze {stale.analysis}
+                </button>
+              )}
+              {stale.embeddings === 0 && (
+                <button onClick={onDismiss} className={`${buttonClass} text-gray-500 hover:text-gray-900 dark:hover:text-white`}>
+                  Not now
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { MemoryItem, ReviewGrade, ReviewLogEntry } from '../types';
+import { getReviewLog } from '../services/db';
+import { useAttachmentUrl } from '../hooks/useAttachmentUrl';
+import {
+  REVIEW_GRADES,
+  buildReviewQueue,
+  computeReviewStats,
+  formatInterval,
+  getRecallPrompt,
+  gradeMemory,
+  scheduleReview,
+  setReviewSuspended
+} from '../services/review';
+
+interface ReviewPanelProps {
+  memories: MemoryItem[];
+  onOpen: (item: MemoryItem) => void;
+  onChange: () => void; // A memory was graded or left out
+  onClose: () => void;
+}
+
+const GRADE_STYLES: Record<ReviewGrade, { label: string, className: string }> = {
+  forgot: { label: 'Forgot', className: 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30' },
+  hard: { label: 'Hard', className: 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-400 hover:bg-yellow-100 dark:hover:bg-yellow-900/30' },
+  good: { label: 'Good', className: 'bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900/30' },
+  easy: { label: 'Easy', className: 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900/30' }
+};
+
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({ memories, onOpen, onChange, onClose }) => {
+  const [log, setLog] = useState<ReviewLogEntry[] | null>(null);
+  const [queue, setQueue] = useState<MemoryItem[]>([]);
+  const [prompt, setPrompt] = useState<string | null>(null);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [turn, setTurn] = useState(0); // Changes with every card, even when one comes straight back
+
+  const current = queue[0];
+  const imageUrl = useAttachmentUrl(current?.type === 'image' ? current.attachmentId : undefined, 'thumbnail', isRevealed);
+
+  // The session's queue is fixed when the panel opens
+  useEffect(() => {
+    getReviewLog()
+      .catch(error => {
+        console.error("Failed to load review history:", error);
+        return [];
+      })
+      .then(entries => {
+        setLog(entries);
+        setQueue(buildReviewQueue(memories, entries));
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!current) return;
+    let cancelled = false;
+    setPrompt(null);
+    setIsRevealed(false);
+    getRecallPrompt(current).then(text => {
+      if (!cancelled) setPrompt(text);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [current?.id, turn]);
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!current) return;
+    setIsBusy(true);
+    try {
+      const { memory, entry } = await gradeMemory(current, grade, prompt || undefined);
+      setLog(prev => [...(prev || []), entry]);
+      // Forgotten memories come back at the end of this session as well as tomorrow
+      setQueue(prev => [...prev.slice(1), ...(grade === 'forgot' && memory ? [memory] : [])]);
+      setTurn(prev => prev + 1);
+      onChange();
+    } catch (error) {
+      console.error("Failed to save review:", error);
+      alert("Failed to save your review.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleLeaveOut = async () => {
+    if (!current || !window.confirm("Leave this memory out of reviews? You can include it again from its details.")) return;
+    setIsBusy(true);
+    try {
+      await setReviewSuspended(current.id, true);
+      setQueue(prev => prev.slice(1));
+      setTurn(prev => prev + 1);
+      onChange();
+    } catch (error) {
+      console.error("Failed to update review:", error);
+      alert("Failed to leave the memory out.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const stats = log ? computeReviewStats(memories, log) : null;
+  const now = Date.now();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-white/60 dark:bg-black/60 backdrop-blur-xl"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.95, opacity: 0, y: 20 }}
+        className="bg-white dark:bg-dark-card w-full max-w-xl max-h-[85vh] rounded-3xl shadow-2xl border border-gray-100 dark:border-dark-border flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 pb-4">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">Review</h2>
+            {stats && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                🔥 {stats.currentStreak} day streak · best {stats.longestStreak} · {stats.reviewedToday} reviewed today
+                {stats.retention !== undefined ? ` · ${Math.round(stats.retention * 100)}% remembered` : ''}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-white/10 transition-colors">
+            <svg className="w-5 h-5 text-gray-500 dark:text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="overflow-y-auto px-6 pb-6">
+          {log === null && (
+            <div className="flex justify-center py-10">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+            </div>
+          )}
+
+          {log !== null && !current && (
+            <div className="text-center py-10 space-y-2">
+              <p className="text-4xl">🎉</p>
+              <p className="font-semibold text-gray-900 dark:text-white">All caught up</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">Nothing else is due today. Come back tomorrow to keep your streak going.</p>
+            </div>
+          )}
+
+          {current && (
+            <div className="space-y-4">
+              <p className="text-xs font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500">
+                {queue.length} left · {current.review?.lastReviewedAt ? `seen ${current.resurfaceCount || 0}×` : 'new'}
+              </p>
+
+              <div className="p-5 rounded-2xl bg-gray-50 dark:bg-white/5 min-h-[96px] flex items-center">
+                {prompt ? (
+                  <p className="text-lg font-medium text-gray-900 dark:text-white">{prompt}</p>
+                ) : (
+                  <div className="animate-pulse h-5 w-3/4 rounded bg-gray-200 dark:bg-gray-700" />
+                )}
+              </div>
+
+              {isRevealed ? (
+                <div className="space-y-3">
+                  {imageUrl && <img src={imageUrl} alt="" className="max-h-48 rounded-xl object-cover" />}
+                  <p className="text-gray-800 dark:text-gray-200">{current.aiMetadata.summary}</p>
+                  {current.content && current.content !== current.aiMetadata.summary && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 line-clamp-4 break-words">{current.content}</p>
+                  )}
+                  <div className="flex flex-wrap gap-1.5">
+                    {current.aiMetadata.topics.map(topic => (
+                      <span key={topic} className="px-2 py-0.5 rounded-md bg-gray-100 dark:bg-gray-800 text-xs text-gray-600 dark:text-gray-300">{topic}</span>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-4 gap-2 pt-2">
+                    {REVIEW_GRADES.map(grade => (
+                      <button
+                        key={grade}
+                        onClick={() => handleGrade(grade)}
+                        disabled={isBusy}
+                        className={`py-2.5 rounded-xl text-sm font-semibold transition-colors disabled:opacity-40 ${GRADE_STYLES[grade].className}`}
+                      >
+                        {GRADE_STYLES[grade].label}
+                        <span className="block text-xs font-normal opacity-70">{formatInterval(scheduleReview(current.review, grade, now).interval)}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setIsRevealed(true)}
+                  className="w-full py-3 rounded-xl text-sm font-semibold bg-black dark:bg-white text-white dark:text-black transition-all"
+                >
+                  Show answer
+                </button>
+              )}
+
+              <div className="flex justify-between text-xs font-semibold text-gray-400">
+                <button onClick={() => onOpen(current)} className="hover:text-gray-900 dark:hover:text-white transition-colors">Open memory</button>
+                <button onClick={handleLeaveOut} disabled={isBusy} className="hover:text-red-500 transition-colors">Leave out of reviews</button>
+              </div>
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { MemoryItem, Revision, RevisionAction } from '../types';
+import { getRevisions } from '../services/db';
+import { describeChange } from '../services/revisions';
+
+interface RevisionHistoryProps {
+  item: MemoryItem;
+  onRevert: (revision: Revision) => void;
+}
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  create: 'Saved',
+  edit: 'Edited',
+  analyze: 'Analyzed',
+  revert: 'Reverted a change',
+  delete: 'Moved to trash',
+  restore: 'Restored from trash'
+};
+
+// Timeline of every change to the memory, newest first, with a revert button per change
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ item, onRevert }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+
+  // Reload whenever the memory changes, since every save may add a revision
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    getRevisions(item.id)
+      .then(result => { if (!cancelled) setRevisions(result); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [item, isOpen]);
+
+  return (
+    <div className="mb-8">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-2 text-sm font-bold uppercase tracking-wider text-gray-900 dark:text-white mb-3">
+        History
+        <svg className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M19 9l-7 7-7-7" /></svg>
+      </button>
+      {isOpen && (
+        revisions.length === 0 ? (
+          <p className="text-xs text-gray-400">No changes recorded yet.</p>
+        ) : (
+          <ol className="border-l border-gray-200 dark:border-dark-border ml-1 space-y-4">
+            {revisions.map(revision => (
+              <li key={revision.id} className="relative pl-4">
+                <span className={`absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full ${revision.author === 'ai' ? 'bg-orange-400' : 'bg-blue-500'}`}></span>
+                <div className="flex items-baseline justify-between gap-2">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    {revision.author === 'ai' ? 'AI' : 'You'} · {ACTION_LABELS[revision.action]}
+                  </p>
+                  {revision.revertible && (
+                    <button onClick={() => onRevert(revision)} className="text-xs text-orange-500 hover:text-orange-600 font-medium flex-shrink-0">
+                      Revert
+                    </button>
+                  )}
+                </div>
+                <p className="text-[11px] text-gray-400">{new Date(revision.createdAt).toLocaleString()}</p>
+                {revision.action !== 'create' && (
+                  <ul className="mt-1 text-xs text-gray-500 dark:text-gray-400 space-y-0.5">
+                    {revision.changes.flatMap(describeChange).map((line, i) => <li key={i}>{line}</li>)}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { LabelField, LabelUsage, MemoryItem } from '../types';
+import { countLabels, deleteLabel, mergeLabels, reembedMemories, renameLabel, splitLabel } from '../services/tags';
+
+interface TagManagerProps {
+  memories: MemoryItem[];
+  onChange: () => void; // Memories were rewritten
+  onClose: () => void;
+}
+
+const FIELDS: { field: LabelField, label: string }[] = [
+  { field: 'topics', label: 'Tags' },
+  { field: 'mood', label: 'Moods' }
+];
+
+export const TagManager: React.FC<TagManagerProps> = ({ memories, onChange, onClose }) => {
+  const [field, setField] = useState<LabelField>('topics');
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [reembed, setReembed] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const usage = countLabels(memories, field);
+  const visible = usage.filter(u => u.spellings.some(s => s.toLowerCase().includes(filter.trim().toLowerCase())));
+  const isBusy = status !== null;
+
+  const switchField = (next: LabelField) => {
+    setField(next);
+    setSelected([]);
+  };
+
+  const toggle = (label: string) =>
+    setSelected(prev => prev.includes(label) ? prev.filter(l => l !== label) : [...prev, label]);
+
+  const run = async (action: () => Promise<MemoryItem[]>) => {
+    setStatus('Updating memories...');
+    try {
+      const changed = await action();
+      if (reembed && changed.length > 0) {
+        await reembedMemories(changed, (done, total) => setStatus(`Re-embedding ${done} of ${total}...`));
+      }
+      setSelected([]);
+      onChange();
+    } catch (error) {
+      console.error("Tag update failed:", error);
+      alert("Failed to update tags.");
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  const handleRename = (item: LabelUsage) => {
+    const name = window.prompt(`Rename "${item.label}" on ${item.count} memories to:`, item.label)?.trim();
+    if (!name || (name === item.label && item.spellings.length === 1)) return;
+    run(() => renameLabel(field, item.label, name));
+  };
+
+  const handleSplit = (item: LabelUsage) => {
+    const input = window.prompt(`Split "${item.label}" into (comma separated):`, item.label);
+    const parts = input?.split(',').map(p => p.trim()).filter(Boolean) || [];
+    if (parts.length === 0) return;
+    run(() => splitLabel(field, item.label, parts));
+  };
+
+  const handleDelete = (item: LabelUsage) => {
+    if (!window.confirm(`Remove "${item.label}" from ${item.count} memories?`)) return;
+    run(() => deleteLabel(field, item.label));
+  };
+
+  const handleMerge = () => {
+    // Suggest the most used of the selected labels
+    const into = window.prompt(`Merge ${selected.length} into:`, usage.find(u => selected.includes(u.label))?.label)?.trim();
+    if (!into) return;
+    run(() => mergeLabels(field, selected, into));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-white/60 dark:bg-black/60 backdrop-blur-xl"
+      onClick={isBusy ? undefined : onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.95, opacity: 0, y: 20 }}
+        className="bg-white dark:bg-dark-card w-full max-w-2xl max-h-[85vh] rounded-3xl shadow-2xl border border-gray-100 dark:border-dark-border flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 pb-4">
+          <div className="flex gap-1 bg-gray-100 dark:bg-white/5 p-1 rounded-xl">
+            {FIELDS.map(f => (
+              <button
+                key={f.field}
+                onClick={() => switchField(f.field)}
+                className={`px-4 py-1.5 rounded-lg text-sm font-semibold transition-all ${
+                  field === f.field ? 'bg-white dark:bg-dark-card text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-gray-400'
+                }`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} disabled={isBusy} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-white/10 transition-colors disabled:opacity-40">
+            <svg className="w-5 h-5 text-gray-500 dark:text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3 px-6 pb-4">
+          <input
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            placeholder={`Filter ${usage.length} ${field === 'topics' ? 'tags' : 'moods'}`}
+            className="flex-1 px-3 py-2 rounded-xl bg-gray-50 dark:bg-white/5 text-sm text-gray-900 dark:text-white placeholder-gray-400 outline-none focus:ring-2 focus:ring-orange-500/30"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+            <input type="checkbox" checked={reembed} onChange={e => setReembed(e.target.checked)} />
+            Re-embed changed memories
+          </label>
+        </div>
+
+        <div className="overflow-y-auto px-6 pb-4 space-y-1">
+          {visible.length === 0 && (
+            <p className="text-center text-gray-400 dark:text-gray-500 py-10">Nothing to show.</p>
+          )}
+          {visible.map(item => (
+            <div key={item.label} className="group flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-gray-50 dark:hover:bg-white/5">
+              <input type="checkbox" checked={selected.includes(item.label)} onChange={() => toggle(item.label)} disabled={isBusy} />
+              <div className="flex-1 min-w-0">
+                <span className="text-sm font-medium text-gray-900 dark:text-white">{item.label}</span>
+                {item.spellings.length > 1 && (
+                  <span className="ml-2 text-xs text-gray-400 dark:text-gray-500">also {item.spellings.slice(1).join(', ')}</span>
+                )}
+              </div>
+              <span className="text-xs font-bold text-gray-400 dark:text-gray-600 bg-gray-100 dark:bg-dark-border px-2 py-0.5 rounded-full">{item.count}</span>
+              <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => handleRename(item)} disabled={isBusy} className="px-2 py-1 rounded-lg text-xs font-semibold text-gray-500 hover:text-gray-900 dark:hover:text-white">Rename</button>
+                <button onClick={() => handleSplit(item)} disabled={isBusy} className="px-2 py-1 rounded-lg text-xs font-semibold text-gray-500 hover:text-gray-900 dark:hover:text-white">Split</button>
+                <button onClick={() => handleDelete(item)} disabled={isBusy} className="px-2 py-1 rounded-lg text-xs font-semibold text-gray-500 hover:text-red-500">Delete</button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 px-6 py-4 border-t border-gray-100 dark:border-dark-border">
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {status || (selected.length > 0 ? `${selected.length} selected` : 'Select tags to merge them')}
+          </span>
+          <button
+            onClick={handleMerge}
+            disabled={selected.length < 2 || isBusy}
+            className="px-4 py-2 rounded-xl text-sm font-semibold bg-black dark:bg-white text-white dark:text-black disabled:opacity-40 transition-all"
+          >
+            Merge
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { MemoryItem, Tag } from '../types';
+import { deleteTag, getAllTags, saveTag } from '../services/db';
+import { ancestorsOf, createTag, createsCycle, findTag, topicKeys } from '../services/taxonomy';
+
+interface TagTaxonomyPanelProps {
+  memories: MemoryItem[];
+  onChange: () => void; // The taxonomy was edited
+  onClose: () => void;
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Tags in tree order: each parent followed by its children, alphabetically
+const treeOrder = (tags: Tag[]): Tag[] => {
+  const ids = new Set(tags.map(t => t.id));
+  const visit = (parentId: string | undefined): Tag[] => tags
+    .filter(t => (t.parentId && ids.has(t.parentId) ? t.parentId : undefined) === parentId)
+    .flatMap(t => [t, ...visit(t.id)]);
+  return visit(undefined);
+};
+
+export const TagTaxonomyPanel: React.FC<TagTaxonomyPanelProps> = ({ memories, onChange, onClose }) => {
+  const [tags, setTags] = useState<Tag[] | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newParentId, setNewParentId] = useState('');
+  const [aliasDrafts, setAliasDrafts] = useState<Record<string, string>>({});
+
+  const loadTags = async () => {
+    try {
+      setTags(await getAllTags());
+    } catch (error) {
+      console.error("Failed to load tags:", error);
+      setTags([]);
+    }
+  };
+
+  useEffect(() => {
+    loadTags();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      onChange();
+    } catch (error) {
+      console.error("Tag update failed:", error);
+      alert(errorMessage(error));
+    }
+    await loadTags();
+  };
+
+  const all = tags || [];
+  // Topics on memories that the taxonomy doesn't know yet, offered when adding a tag
+  const untracked = Array.from(new Set<string>(memories.flatMap(m => m.aiMetadata.topics)))
+    .filter(topic => !findTag(topic, all))
+    .sort((a, b) => a.localeCompare(b));
+
+  const usage = (tag: Tag) => {
+    const keys = topicKeys(tag.name, all);
+    return memories.filter(m => m.aiMetadata.topics.some(t => keys.has(t.toLowerCase()))).length;
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    run(() => createTag({ name: newName, parentId: newParentId || undefined, aliases: [] }));
+    setNewName('');
+  };
+
+  const handleRename = (tag: Tag) => {
+    const name = window.prompt("Rename tag", tag.name)?.trim();
+    if (!name || name === tag.name) return;
+    const existing = findTag(name, all);
+    if (existing && existing.id !== tag.id) {
+      alert(`"${name}" is already a tag or an alias`);
+      return;
+    }
+    // The old name keeps matching as an alias
+    const aliases = Array.from(new Set([...tag.aliases, tag.name])).filter(a => a.toLowerCase() !== name.toLowerCase());
+    run(() => saveTag({ ...tag, name, aliases }));
+  };
+
+  const handleParentChange = (tag: Tag, parentId: string) => {
+    if (createsCycle(tag.id, parentId || undefined, all)) {
+      alert("A tag can't be nested inside itself.");
+      return;
+    }
+    run(() => saveTag({ ...tag, parentId: parentId || undefined }));
+  };
+
+  const handleAddAlias = (e: React.FormEvent, tag: Tag) => {
+    e.preventDefault();
+    const alias = (aliasDrafts[tag.id] || '').trim();
+    if (!alias) return;
+    const existing = findTag(alias, all);
+    if (existing) {
+      alert(`"${alias}" already belongs to "${existing.name}"`);
+      return;
+    }
+    setAliasDrafts(prev => ({ ...prev, [tag.id]: '' }));
+    run(() => saveTag({ ...tag, aliases: [...tag.aliases, alias] }));
+  };
+
+  const handleRemoveAlias = (tag: Tag, alias: string) =>
+    run(() => saveTag({ ...tag, aliases: tag.aliases.filter(a => a !== alias) }));
+
+  const handleDelete = (tag: Tag) => {
+    if (!window.confirm(`Remove "${tag.name}" from the taxonomy? Memories keep their tags; nested tags move up a level.`)) return;
+    run(() => deleteTag(tag.id));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-white/60 dark:bg-black/60 backdrop-blur-xl"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.95, opacity: 0, y: 20 }}
+        className="bg-white dark:bg-dark-card w-full max-w-2xl max-h-[85vh] rounded-3xl shadow-2xl border border-gray-100 dark:border-dark-border flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 pb-4">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">Tag taxonomy</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Aliases count as the tag; searching or counting a tag includes the tags nested under it.</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-white/10 transition-colors">
+            <svg className="w-5 h-5 text-gray-500 dark:text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleCreate} className="flex gap-2 px-6 pb-4">
+          <input
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            list="untracked-topics"
+            placeholder="New tag"
+            className="flex-1 px-3 py-2 rounded-xl bg-gray-50 dark:bg-white/5 text-sm text-gray-900 dark:text-white placeholder-gray-400 outline-none focus:ring-2 focus:ring-orange-500/30"
+          />
+          <datalist id="untracked-topics">
+            {untracked.map(topic => <option key={topic} value={topic} />)}
+          </datalist>
+          <select
+            value={newParentId}
+            onChange={e => setNewParentId(e.target.value)}
+            className="px-3 py-2 rounded-xl bg-gray-50 dark:bg-white/5 text-sm text-gray-700 dark:text-gray-200 outline-none"
+          >
+            <option value="">No parent</option>
+            {treeOrder(all).map(t => <option key={t.id} value={t.id}>{'\u00A0\u00A0'.repeat(ancestorsOf(t, all).length)}{t.name}</option>)}
+          </select>
+          <button type="submit" disabled={!newName.trim()} className="px-4 py-2 rounded-xl text-sm font-semibold bg-black dark:bg-white text-white dark:text-black disabled:opacity-40 transition-all">
+            Add
+          </button>
+        </form>
+
+        <div className="overflow-y-auto px-6 pb-6 space-y-2">
+          {tags === null && (
+            <div className="flex justify-center py-10">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+            </div>
+          )}
+          {tags?.length === 0 && (
+            <p className="text-center text-gray-400 dark:text-gray-500 py-10">No tags in the taxonomy yet. Add one to group synonyms or nest related tags.</p>
+          )}
+          {treeOrder(all).map(tag => (
+            <div
+              key={tag.id}
+              className="p-3 rounded-xl bg-gray-50 dark:bg-white/5 space-y-2"
+              style={{ marginLeft: ancestorsOf(tag, all).length * 24 }}
+            >
+              <div className="flex items-center gap-2">
+                <button onClick={() => handleRename(tag)} className="font-semibold text-sm text-gray-900 dark:text-white hover:underline" title="Rename">
+                  {tag.name}
+                </button>
+                <span className="text-xs text-gray-400 dark:text-gray-500">{usage(tag)} memories</span>
+                <select
+                  value={tag.parentId || ''}
+                  onChange={e => handleParentChange(tag, e.target.value)}
+                  className="ml-auto px-2 py-1 rounded-lg bg-white dark:bg-dark-card text-xs text-gray-600 dark:text-gray-300 outline-none"
+                >
+                  <option value="">No parent</option>
+                  {all.filter(t => t.id !== tag.id).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+                <button onClick={() => handleDelete(tag)} className="text-xs font-semibold text-gray-400 hover:text-red-500 transition-colors">
+                  Remove
+                </button>
+              </div>
+              <form onSubmit={e => handleAddAlias(e, tag)} className="flex flex-wrap items-center gap-1.5">
+                {tag.aliases.map(alias => (
+                  <span key={alias} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-white dark:bg-dark-card text-xs text-gray-600 dark:text-gray-300">
+                    {alias}
+                    <button type="button" onClick={() => handleRemoveAlias(tag, alias)} className="text-gray-400 hover:text-red-500">×</button>
+                  </span>
+                ))}
+                <input
+                  value={aliasDrafts[tag.id] || ''}
+                  onChange={e => setAliasDrafts(prev => ({ ...prev, [tag.id]: e.target.value }))}
+                  list="untracked-topics"
+                  placeholder="Add alias"
+                  className="w-28 px-2 py-0.5 rounded-md bg-transparent text-xs text-gray-700 dark:text-gray-200 placeholder-gray-400 outline-none focus:bg-white dark:focus:bg-dark-card"
+                />
+              </form>
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
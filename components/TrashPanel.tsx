@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { MemoryItem } from '../types';
+import { deleteMemory, getTrashedMemories } from '../services/db';
+import { daysUntilPurge, emptyTrash, getTrashRetentionDays, restoreFromTrash, setTrashRetentionDays } from '../services/trash';
+import { DuplicatePreview } from './DuplicateDialog';
+
+interface TrashPanelProps {
+  onChange: () => void; // A memory was restored or purged
+  onClose: () => void;
+}
+
+export const TrashPanel: React.FC<TrashPanelProps> = ({ onChange, onClose }) => {
+  const [trashed, setTrashed] = useState<MemoryItem[] | null>(null);
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays);
+
+  const loadTrash = async () => {
+    try {
+      setTrashed(await getTrashedMemories());
+    } catch (error) {
+      console.error("Failed to load trash:", error);
+      setTrashed([]);
+    }
+  };
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      onChange();
+    } catch (error) {
+      console.error(failure, error);
+      alert(failure);
+    }
+    await loadTrash();
+  };
+
+  const handleRestore = (memory: MemoryItem) => run(() => restoreFromTrash(memory.id), "Failed to restore memory.");
+
+  const handlePurge = (memory: MemoryItem) => {
+    if (!window.confirm("Delete this memory permanently? This can't be undone.")) return;
+    run(() => deleteMemory(memory.id), "Failed to delete memory.");
+  };
+
+  const handleEmpty = () => {
+    if (!window.confirm(`Permanently delete all ${trashed?.length} memories in the trash? This can't be undone.`)) return;
+    run(emptyTrash, "Failed to empty the trash.");
+  };
+
+  const handleRetentionChange = (value: string) => {
+    const days = Number(value);
+    if (!Number.isInteger(days) || days < 1) return;
+    setTrashRetentionDays(days);
+    setRetentionDays(days);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-white/60 dark:bg-black/60 backdrop-blur-xl"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.95, opacity: 0, y: 20 }}
+        className="bg-white dark:bg-dark-card w-full max-w-2xl max-h-[85vh] rounded-3xl shadow-2xl border border-gray-100 dark:border-dark-border flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 pb-4">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">Trash</h2>
+            <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+              Deleted permanently after
+              <input
+                type="number"
+                min={1}
+                value={retentionDays}
+                onChange={e => handleRetentionChange(e.target.value)}
+                className="w-16 px-2 py-0.5 rounded-md bg-gray-50 dark:bg-white/5 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-orange-500/30"
+              />
+              days
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            {!!trashed?.length && (
+              <button onClick={handleEmpty} className="px-3 py-1.5 rounded-lg text-xs font-semibold text-red-500 hover:bg-red-50 dark:hover:bg-red-900/10 transition-colors">
+                Empty trash
+              </button>
+            )}
+            <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-white/10 transition-colors">
+              <svg className="w-5 h-5 text-gray-500 dark:text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto px-6 pb-6 space-y-3">
+          {trashed === null && (
+            <div className="flex justify-center py-10">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+            </div>
+          )}
+          {trashed?.length === 0 && (
+            <p className="text-center text-gray-400 dark:text-gray-500 py-10">The trash is empty.</p>
+          )}
+          {trashed?.map(memory => {
+            const daysLeft = daysUntilPurge(memory);
+            return (
+              <div key={memory.id} className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <DuplicatePreview
+                    memory={memory}
+                    detail={`deleted ${new Date(memory.deletedAt!).toLocaleDateString()} · ${daysLeft === 0 ? 'goes today' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}`}
+                  />
+                </div>
+                <div className="flex flex-col gap-1 shrink-0">
+                  <button onClick={() => handleRestore(memory)} className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-black dark:bg-white text-white dark:text-black transition-colors">
+                    Restore
+                  </button>
+                  <button onClick={() => handlePurge(memory)} className="px-3 py-1.5 rounded-lg text-xs font-semibold text-gray-500 hover:text-red-500 transition-colors">
+                    Delete forever
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { AttachmentVariant } from '../types';
+import { loadAttachmentBlob } from '../services/attachments';
+
+// Loads an attachment from IndexedDB on demand and exposes it as an object URL
+// that is revoked when the component unmounts or the attachment changes.
+export const useAttachmentUrl = (
+  attachmentId: string | undefined,
+  variant: AttachmentVariant = 'full',
+  enabled: boolean = true
+): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!attachmentId || !enabled) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    loadAttachmentBlob(attachmentId, variant)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(console.error);
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [attachmentId, variant, enabled]);
+
+  return url;
+};
@@ -0,0 +1,196 @@
+import {
+  ArchiveManifest,
+  ArchivedMemory,
+  ArchivedSnapshot,
+  Collection,
+  ImportConflictPolicy,
+  ImportReport,
+  MemoryItem,
+  Tag
+} from '../types';
+import { deleteAttachment, getAllCollections, getAllMemories, getAllTags, getAttachment, getSnapshot, relateMemories, saveCollection, saveMemory, saveSnapshot, saveTag } from './db';
+import { storeAttachment } from './attachments';
+import { embedMemory } from './gemini';
+import { legacyEmbeddingModel } from './migrations';
+import { createZip, readZip, ZipEntry } from './zip';
+
+const ARCHIVE_FORMAT_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+// Fields that define a memory's identity for conflict detection
+const fingerprint = (memory: MemoryItem, attachmentSize: number | null) => JSON.stringify({
+  type: memory.type,
+  content: memory.content,
+  attachmentSize,
+  aiMetadata: memory.aiMetadata,
+  createdAt: memory.createdAt
+});
+
+// Exports every memory, or only those in `ids` along with the collections they're in
+export const exportArchive = async (includeEmbeddings: boolean = false, ids?: string[]): Promise<Blob> => {
+  const [allMemories, allCollections, tags] = await Promise.all([getAllMemories(), getAllCollections(), getAllTags()]);
+  const selected = ids && new Set(ids);
+  const memories = selected ? allMemories.filter(m => selected.has(m.id)) : allMemories;
+  const collections = selected
+    ? allCollections
+        .map(c => ({ ...c, memoryIds: c.memoryIds.filter(id => selected.has(id)) }))
+        .filter(c => c.memoryIds.length > 0)
+    : allCollections;
+  const entries: ZipEntry[] = [];
+
+  const archived: ArchivedMemory[] = [];
+  for (const { attachmentId, embedding, embeddingModel, embeddingDimensions, ...rest } of memories) {
+    // The model travels with its vectors, so the importer knows whether they are comparable
+    const memory: ArchivedMemory = includeEmbeddings ? { ...rest, embedding, embeddingModel, embeddingDimensions } : { ...rest };
+    const attachment = attachmentId ? await getAttachment(attachmentId) : undefined;
+    if (attachment) {
+      const path = `attachments/${rest.id}.${EXTENSIONS[attachment.mimeType] || 'bin'}`;
+      entries.push({ name: path, data: new Uint8Array(await attachment.blob.arrayBuffer()) });
+      memory.attachment = { path, mimeType: attachment.mimeType };
+    }
+    const snapshot = rest.type === 'link' ? await getSnapshot(rest.id) : undefined;
+    if (snapshot) {
+      const { memoryId, heroImage, ...fields } = snapshot;
+      const archivedSnapshot: ArchivedSnapshot = fields;
+      if (heroImage) {
+        const path = `snapshots/${rest.id}.${EXTENSIONS[heroImage.type] || 'bin'}`;
+        entries.push({ name: path, data: new Uint8Array(await heroImage.arrayBuffer()) });
+        archivedSnapshot.heroImage = { path, mimeType: heroImage.type };
+      }
+      memory.snapshot = archivedSnapshot;
+    }
+    archived.push(memory);
+  }
+
+  const manifest: ArchiveManifest = {
+    format: 'memory-archive',
+    version: ARCHIVE_FORMAT_VERSION,
+    exportedAt: Date.now(),
+    includesEmbeddings: includeEmbeddings,
+    memories: archived,
+    collections,
+    tags
+  };
+
+  entries.unshift({ name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+export const importArchive = async (
+  file: Blob,
+  conflictPolicy: ImportConflictPolicy = 'keep-local'
+): Promise<ImportReport> => {
+  const files = await readZip(file);
+  const manifestBytes = files.get(MANIFEST_PATH);
+  if (!manifestBytes) throw new Error('Archive is missing manifest.json');
+
+  const manifest = JSON.parse(new TextDecoder().decode(manifestBytes)) as ArchiveManifest;
+  if (manifest.format !== 'memory-archive') throw new Error('Not a Memory archive');
+  if (manifest.version > ARCHIVE_FORMAT_VERSION) {
+    throw new Error(`Archive version ${manifest.version} is newer than this app supports`);
+  }
+
+  const report: ImportReport = { added: [], updated: [], conflicts: [], skipped: [], collectionsMerged: 0 };
+  const existing = new Map((await getAllMemories()).map(m => [m.id, m]));
+  const imported = new Set<string>();
+
+  for (const { attachment, embedding, snapshot, ...rest } of manifest.memories) {
+    if (!rest.id || !rest.aiMetadata) {
+      report.skipped.push({ id: rest.id || '(unknown)', reason: 'Malformed entry' });
+      continue;
+    }
+
+    let blob: Blob | undefined;
+    if (attachment) {
+      const bytes = files.get(attachment.path);
+      if (!bytes) {
+        report.skipped.push({ id: rest.id, reason: `Missing attachment ${attachment.path}` });
+        continue;
+      }
+      blob = new Blob([bytes], { type: attachment.mimeType });
+    }
+
+    // Archives from before models were recorded are told apart by dimension
+    const memory: MemoryItem = embedding?.length
+      ? { ...rest, embedding, embeddingModel: rest.embeddingModel || legacyEmbeddingModel(embedding.length), embeddingDimensions: embedding.length }
+      : { ...rest, embedding: [], embeddingModel: undefined, embeddingDimensions: undefined };
+    const local = existing.get(memory.id);
+
+    if (local) {
+      const localAttachment = local.attachmentId ? await getAttachment(local.attachmentId) : undefined;
+      if (fingerprint(local, localAttachment?.size ?? null) === fingerprint(memory, blob?.size ?? null)) {
+        report.skipped.push({ id: memory.id, reason: 'Already up to date' });
+        continue;
+      }
+      report.conflicts.push(memory.id);
+      if (conflictPolicy === 'keep-local') {
+        report.skipped.push({ id: memory.id, reason: 'Conflict: kept local version' });
+        continue;
+      }
+      if (local.attachmentId) await deleteAttachment(local.attachmentId);
+    }
+
+    if (blob) {
+      memory.attachmentId = await storeAttachment(memory.id, blob, memory.createdAt);
+    }
+
+    if (memory.embedding.length === 0) {
+      Object.assign(memory, await embedMemory(memory));
+    }
+
+    await saveMemory(memory);
+    // Saving keeps a local memory's connections; add the imported ones on top
+    if (local) await relateMemories(memory.id, memory.aiMetadata.relatedMemoryIds || []);
+    if (snapshot) {
+      const { heroImage, ...fields } = snapshot;
+      const heroBytes = heroImage ? files.get(heroImage.path) : undefined;
+      await saveSnapshot({
+        ...fields,
+        memoryId: memory.id,
+        heroImage: heroImage && heroBytes ? new Blob([heroBytes], { type: heroImage.mimeType }) : undefined
+      });
+    }
+    imported.add(memory.id);
+    (local ? report.updated : report.added).push(memory.id);
+  }
+
+  // Collections are keyed by name in the UI, so merge on name rather than id
+  const localCollections = await getAllCollections();
+  const collections = (manifest.collections || []).map(collection => {
+    const memoryIds = collection.memoryIds.filter(id => imported.has(id) || existing.has(id));
+    const match = localCollections.find(c => c.name === collection.name);
+    const merged: Collection = match
+      ? { ...match, memoryIds: Array.from(new Set([...match.memoryIds, ...memoryIds])) }
+      : { ...collection, memoryIds };
+    return { archived: collection, merged };
+  });
+  const collectionIds = new Map(collections.map(({ archived, merged }) => [archived.id, merged.id]));
+  for (const { archived, merged } of collections) {
+    // Local nesting wins; archived parents are mapped onto the collections they merged into
+    await saveCollection({ ...merged, parentId: merged.parentId ?? collectionIds.get(archived.parentId || '') });
+    report.collectionsMerged++;
+  }
+
+  // Tags merge on name too, pooling their aliases
+  const localTags = await getAllTags();
+  const tags = (manifest.tags || []).map(tag => {
+    const match = localTags.find(t => t.name.toLowerCase() === tag.name.toLowerCase());
+    const merged: Tag = match ? { ...match, aliases: Array.from(new Set([...match.aliases, ...tag.aliases])) } : tag;
+    return { archived: tag, merged };
+  });
+  const tagIds = new Map(tags.map(({ archived, merged }) => [archived.id, merged.id]));
+  for (const { archived, merged } of tags) {
+    await saveTag({ ...merged, parentId: merged.parentId ?? tagIds.get(archived.parentId || '') });
+  }
+
+  return report;
+};
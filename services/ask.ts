@@ -0,0 +1,108 @@
+import { ChatMessage, MemoryItem } from '../types';
+import { getAIProvider } from './gemini';
+import { isSearchResult, searchMemories } from './search';
+
+// "Ask your brain": hybrid search picks the memories most relevant to a question and the
+// AI provider answers from them, citing each memory by its number in the source list.
+
+const SOURCE_COUNT = 6;
+const CARRIED_SOURCES = 3; // Memories cited in the last answer stay available to follow-ups
+const HISTORY_TURNS = 6; // Earlier messages sent along with a question
+const MAX_STORED_MESSAGES = 100;
+const SOURCE_LENGTH = 1500; // Characters of each memory's content given as context
+const HISTORY_KEY = 'memory.askHistory';
+const STRICT_KEY = 'memory.askStrict';
+
+export const NO_SOURCES_ANSWER = "I couldn't find anything about that in your saved memories.";
+
+// [1], [2, 3]
+export const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+export const loadAskHistory = (): ChatMessage[] => {
+  try {
+    return JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveAskHistory = (messages: ChatMessage[]) => {
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(messages.slice(-MAX_STORED_MESSAGES)));
+};
+
+export const clearAskHistory = () => localStorage.removeItem(HISTORY_KEY);
+
+// Strict by default: a second brain should say when it doesn't know
+export const getStrictAnswers = (): boolean => localStorage.getItem(STRICT_KEY) !== 'false';
+
+export const setStrictAnswers = (strict: boolean) => localStorage.setItem(STRICT_KEY, String(strict));
+
+// Memory IDs an answer actually cites, in order of first citation
+export const citedMemoryIds = (message: ChatMessage): string[] => {
+  const ids = new Set<string>();
+  for (const match of message.text.matchAll(CITATION_PATTERN)) {
+    match[1].split(',').forEach(n => {
+      const id = message.sources?.[Number(n) - 1];
+      if (id) ids.add(id);
+    });
+  }
+  return Array.from(ids);
+};
+
+const describeSource = (memory: MemoryItem): string => {
+  const { summary, topics } = memory.aiMetadata;
+  const lines = [
+    `${memory.type} saved ${new Date(memory.createdAt).toLocaleDateString()}`,
+    memory.type === 'note' || memory.type === 'link' ? memory.content.slice(0, SOURCE_LENGTH) : `File: ${memory.content}`,
+    `Summary: ${summary}`
+  ];
+  if (topics.length > 0) lines.push(`Topics: ${topics.join(', ')}`);
+  if (isSearchResult(memory) && memory.passage) {
+    lines.push(`Page ${memory.passage.page}: ${memory.passage.text}`);
+  }
+  return lines.join('\n');
+};
+
+// Top search hits for the question, plus what the previous answer cited
+export const findAnswerSources = async (
+  question: string,
+  memories: MemoryItem[],
+  history: ChatMessage[]
+): Promise<MemoryItem[]> => {
+  const byId = new Map<string, MemoryItem>(memories.map(m => [m.id, m]));
+  const results: MemoryItem[] = (await searchMemories(question, memories.filter(m => m.status !== 'pending')))
+    .slice(0, SOURCE_COUNT);
+
+  const lastAnswer = [...history].reverse().find(m => m.role === 'assistant' && !m.error);
+  const carried = (lastAnswer ? citedMemoryIds(lastAnswer) : [])
+    .filter(id => !results.some(r => r.id === id))
+    .map(id => byId.get(id))
+    .filter((m): m is MemoryItem => !!m)
+    .slice(0, CARRIED_SOURCES);
+
+  return [...results, ...carried];
+};
+
+// Streams the answer; citation [n] refers to sources[n - 1]
+export const streamAnswer = (
+  question: string,
+  sources: MemoryItem[],
+  history: ChatMessage[],
+  strict: boolean
+): AsyncGenerator<string> => {
+  if (strict && sources.length === 0) {
+    return (async function* () { yield NO_SOURCES_ANSWER; })();
+  }
+  // Old citation numbers point into other source lists, so they're dropped from the history
+  const recent = history
+    .filter(m => !m.error && m.text)
+    .slice(-HISTORY_TURNS)
+    .map(m => ({ ...m, text: m.text.replace(CITATION_PATTERN, '').trim() }));
+
+  return getAIProvider().answer(
+    question,
+    sources.map(m => ({ memoryId: m.id, text: describeSource(m) })),
+    recent,
+    { strict }
+  );
+};
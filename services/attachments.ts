@@ -0,0 +1,75 @@
+import { Attachment, AttachmentVariant } from '../types';
+import { getAllAttachments, getAttachment, saveAttachment } from './db';
+
+const THUMBNAIL_SIZE = 480; // Longest edge in pixels, ~2x the grid column width
+const THUMBNAIL_QUALITY = 0.8;
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const createThumbnail = async (blob: Blob): Promise<Blob | undefined> => {
+  if (!blob.type.startsWith('image/')) return undefined;
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    return await new Promise<Blob | undefined>((resolve) =>
+      canvas.toBlob(result => resolve(result || undefined), 'image/jpeg', THUMBNAIL_QUALITY)
+    );
+  } catch (error) {
+    console.warn("Thumbnail generation failed:", error);
+    return undefined;
+  }
+};
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const storeAttachment = async (memoryId: string, blob: Blob, createdAt: number = Date.now()): Promise<string> => {
+  const attachment: Attachment = {
+    id: crypto.randomUUID(),
+    memoryId,
+    mimeType: blob.type || 'application/octet-stream',
+    size: blob.size,
+    blob,
+    thumbnail: await createThumbnail(blob),
+    hash: await hashBlob(blob),
+    createdAt
+  };
+  await saveAttachment(attachment);
+  return attachment.id;
+};
+
+// Falls back to the full blob when no thumbnail exists, backfilling one for migrated images
+export const loadAttachmentBlob = async (id: string, variant: AttachmentVariant = 'full'): Promise<Blob | undefined> => {
+  const attachment = await getAttachment(id);
+  if (!attachment) return undefined;
+  if (variant === 'full') return attachment.blob;
+  if (attachment.thumbnail) return attachment.thumbnail;
+
+  const thumbnail = await createThumbnail(attachment.blob);
+  if (!thumbnail) return attachment.blob;
+  await saveAttachment({ ...attachment, thumbnail });
+  return thumbnail;
+};
+
+// Hashes attachments saved before hashing existed; returns how many were updated
+export const backfillAttachmentHashes = async (): Promise<number> => {
+  const missing = (await getAllAttachments()).filter(a => !a.hash);
+  for (const attachment of missing) {
+    await saveAttachment({ ...attachment, hash: await hashBlob(attachment.blob) });
+  }
+  return missing.length;
+};
@@ -0,0 +1,195 @@
+import { BatchImportItem, ImportedEntry } from '../types';
+import { captureMemory, processCaptureJob, processCaptureQueue } from './captureQueue';
+import { getAllMemories, getMemory } from './db';
+import { contentKey } from './duplicates';
+import { isImporterFile, parseImportFile } from './importers';
+import { runJobQueue } from './jobQueue';
+
+// Imports many files at once: images and PDFs are attached as they are, export files
+// (Markdown, bookmarks, read-later CSV/JSON) are expanded into one item per note or link.
+// Each item is saved as a pending memory and analyzed right away, a few at a time.
+// Items whose analysis can't run now stay in the capture queue; when analysis gives up for
+// good the memory is kept, marked failed, and can be retried from its details.
+
+const CONCURRENCY = 3;
+const RETRIES = 2;
+const UPDATE_INTERVAL = 100; // Coalesce progress updates; bookmark exports can hold thousands of links
+
+export interface BatchImportHandle {
+  cancel: () => void;
+  done: Promise<BatchImportItem[]>;
+}
+
+export const isMediaFile = (file: File) =>
+  file.type.startsWith('image/') || file.type === 'application/pdf';
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+const isFileEntry = (entry: FileSystemEntry): entry is FileSystemFileEntry => entry.isFile;
+const isDirectoryEntry = (entry: FileSystemEntry): entry is FileSystemDirectoryEntry => entry.isDirectory;
+
+// Walks dropped folders (where the browser exposes entries) and returns every file inside
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<{ file: File, path: string }[]> => {
+  const readEntry = async (entry: FileSystemEntry, prefix: string): Promise<{ file: File, path: string }[]> => {
+    if (isFileEntry(entry)) {
+      const file = await new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+      return [{ file, path: `${prefix}${file.name}` }];
+    }
+    if (!isDirectoryEntry(entry)) return [];
+
+    const reader = entry.createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries returns results in chunks until it yields an empty batch
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      children.push(...batch);
+    }
+    const nested = await Promise.all(children.map(child => readEntry(child, `${prefix}${entry.name}/`)));
+    return nested.flat();
+  };
+
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map(file => ({ file, path: file.name }));
+  }
+  return (await Promise.all(entries.map(entry => readEntry(entry, '')))).flat();
+};
+
+// Link titles from bookmarks and read-later exports follow the URL, like a note typed after it
+const entryText = (entry: ImportedEntry) =>
+  entry.type === 'link' && entry.title && entry.title !== entry.content ? `${entry.content}\n${entry.title}` : entry.content;
+
+const newItem = (fields: Pick<BatchImportItem, 'path'> & Partial<BatchImportItem>): BatchImportItem => ({
+  id: crypto.randomUUID(),
+  status: 'queued',
+  attempts: 0,
+  ...fields
+});
+
+// Turns picked or dropped files into import items, marking unsupported files and duplicates up front
+export const createBatchItems = async (files: { file: File, path?: string }[]): Promise<BatchImportItem[]> => {
+  const seen = new Set((await getAllMemories()).map(contentKey));
+  const items: BatchImportItem[] = [];
+
+  for (const { file, path: givenPath } of files) {
+    const path = givenPath || file.webkitRelativePath || file.name;
+    // Skip dotfiles and app config folders inside vaults (.obsidian/, .trash/)
+    if (path.split('/').some(segment => segment.startsWith('.'))) continue;
+
+    if (isMediaFile(file)) {
+      items.push(newItem({ file, path }));
+      continue;
+    }
+    if (!isImporterFile(file)) {
+      items.push(newItem({ path, status: 'failed', error: 'Unsupported file type' }));
+      continue;
+    }
+
+    try {
+      const entries = await parseImportFile(file, path);
+      if (entries.length === 0) {
+        items.push(newItem({ path, status: 'failed', error: 'Nothing to import' }));
+      }
+      for (const entry of entries) {
+        const key = contentKey(entry);
+        const entryPath = entry.type === 'note' ? path : `${path}: ${entry.title || entry.content}`;
+        items.push(seen.has(key)
+          ? newItem({ path: entryPath, entry, status: 'duplicate', error: 'Already in your memories' })
+          : newItem({ path: entryPath, entry }));
+        seen.add(key);
+      }
+    } catch (error) {
+      items.push(newItem({ path, status: 'failed', error: `Could not read file: ${errorMessage(error)}` }));
+    }
+  }
+  return items;
+};
+
+// Fresh copies of the items that failed before they were saved, ready to run again
+export const retryableItems = (items: BatchImportItem[]): BatchImportItem[] =>
+  items
+    .filter(item => item.status === 'failed' && !item.memoryId && (item.file || item.entry))
+    .map(({ file, entry, path }) => newItem({ file, entry, path }));
+
+export const startBatchImport = (
+  items: BatchImportItem[],
+  onUpdate: (items: BatchImportItem[]) => void
+): BatchImportHandle => {
+  const controller = new AbortController();
+  const state = new Map(items.map(item => [item.id, { ...item }]));
+
+  let updateTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const emit = () => {
+    if (updateTimer) clearTimeout(updateTimer);
+    updateTimer = null;
+    onUpdate(Array.from(state.values()));
+  };
+
+  const update = (id: string, changes: Partial<BatchImportItem>) => {
+    state.set(id, { ...state.get(id)!, ...changes });
+    if (!updateTimer) updateTimer = setTimeout(emit, UPDATE_INTERVAL);
+  };
+
+  const importItem = async (item: BatchImportItem, attempt: number) => {
+    update(item.id, { attempts: attempt });
+    // Retries reuse the memory saved by an earlier attempt
+    let memoryId = state.get(item.id)!.memoryId;
+    if (!memoryId) {
+      update(item.id, { status: 'saving' });
+      const { entry, file } = item;
+      const memory = entry
+        ? await captureMemory({ text: entryText(entry), topics: entry.topics, collection: entry.collection, createdAt: entry.createdAt }, false)
+        : await captureMemory({ text: '', file }, false);
+      memoryId = memory.id;
+      update(item.id, { memoryId });
+    }
+
+    update(item.id, { status: 'analyzing' });
+    const id = memoryId;
+    const hasGivenUp = async () => (await getMemory(id))?.status === 'failed';
+    // Errors analysis gave up on are reported rather than retried
+    const analyzed = await processCaptureJob(id).catch(async error => {
+      if (await hasGivenUp()) return false;
+      throw error;
+    });
+    if (!analyzed && await hasGivenUp()) {
+      update(item.id, { status: 'failed', error: (await getMemory(id))?.analysisError || 'Analysis failed' });
+      return;
+    }
+    update(item.id, analyzed
+      ? { status: 'done', error: undefined }
+      : { status: 'deferred', error: 'Will be analyzed when the AI is reachable' });
+  };
+
+  // Unsupported files and duplicates are reported but never run
+  const queued = items.filter(item => item.status === 'queued');
+  emit();
+
+  const done = runJobQueue(queued, importItem, {
+    concurrency: CONCURRENCY,
+    retries: RETRIES,
+    signal: controller.signal
+  }).then(outcomes => {
+    outcomes.forEach((outcome, i) => {
+      const item = state.get(queued[i].id)!;
+      if (outcome.status === 'rejected') {
+        // Saved memories are kept and retried in the background
+        update(item.id, item.memoryId
+          ? { status: 'deferred', error: errorMessage(outcome.error) }
+          : { status: 'failed', error: errorMessage(outcome.error) });
+      } else if (outcome.status === 'cancelled') {
+        update(item.id, { status: 'cancelled' });
+      }
+    });
+    emit();
+    processCaptureQueue().catch(console.error);
+    return Array.from(state.values());
+  });
+
+  return { cancel: () => controller.abort(), done };
+};
@@ -0,0 +1,40 @@
+import { LabelField, MemoryItem } from '../types';
+import { updateMemories } from './db';
+import { labelsOf } from './tags';
+
+// Actions on a selection of memories from the grid. Each runs in a single transaction and
+// records a revision per memory it changes.
+
+const updateSelected = (ids: string[], update: (memory: MemoryItem) => MemoryItem | undefined) => {
+  const selected = new Set(ids);
+  return updateMemories(memory => selected.has(memory.id) ? update(memory) : undefined);
+};
+
+export const trashMemories = (ids: string[]) => {
+  const deletedAt = Date.now();
+  return updateSelected(ids, memory => memory.deletedAt ? undefined : { ...memory, deletedAt });
+};
+
+export const addLabels = (ids: string[], field: LabelField, labels: string[]) =>
+  updateSelected(ids, memory => {
+    const current = labelsOf(memory, field);
+    const missing = labels.filter(label => !current.some(l => l.toLowerCase() === label.toLowerCase()));
+    return missing.length > 0 ? { ...memory, aiMetadata: { ...memory.aiMetadata, [field]: [...current, ...missing] } } : undefined;
+  });
+
+export const removeLabels = (ids: string[], field: LabelField, labels: string[]) => {
+  const removed = new Set(labels.map(label => label.toLowerCase()));
+  return updateSelected(ids, memory => {
+    const current = labelsOf(memory, field);
+    const kept = current.filter(label => !removed.has(label.toLowerCase()));
+    return kept.length < current.length ? { ...memory, aiMetadata: { ...memory.aiMetadata, [field]: kept } } : undefined;
+  });
+};
+
+export const moveToCollection = (ids: string[], collection: string) =>
+  updateSelected(ids, memory => memory.aiMetadata.collection === collection
+    ? undefined
+    : { ...memory, aiMetadata: { ...memory.aiMetadata, collection } });
+
+export const setPinned = (ids: string[], pinned: boolean) =>
+  updateSelected(ids, memory => !!memory.pinned === pinned ? undefined : { ...memory, pinned });
@@ -0,0 +1,355 @@
+import { AIMetadata, CaptureJob, MemoryEmbedding, MemoryItem } from '../types';
+import { deleteCaptureJob, getAllMemories, getAllTags, getAttachment, getCaptureJob, getCaptureJobs, getMemory, getSnapshot, relateMemories, saveCaptureJob, saveMemory, updateMemories, writePdfChunks } from './db';
+import { analyzeContent, currentAnalysisModel, embedText, findRelatedMemories, getProviderId, isRetryableError } from './gemini';
+import { blobToDataUrl, storeAttachment } from './attachments';
+import { indexPdfPages } from './pdfIndex';
+import { extractPdfPages } from './pdfText';
+import { captureSnapshot, linkUrl, snapshotToText } from './snapshot';
+import { resolveCollectionName } from './collections';
+import { canonicalTopics } from './taxonomy';
+import { PENDING_SUMMARY } from './revisions';
+
+// Memories are saved immediately as 'pending' and enriched here in the background,
+// retrying with exponential backoff until the AI provider is reachable. Errors that won't
+// go away, or too many attempts, mark the memory 'failed' with placeholder metadata.
+
+const BASE_RETRY_DELAY = 5 * 1000;
+const MAX_RETRY_DELAY = 60 * 60 * 1000;
+const MAX_ATTEMPTS = 10;
+const SYNC_TAG = 'capture-queue';
+const EXCERPT_LENGTH = 4000; // PDF or page text handed to the analyzer; keeps the embedding input in range
+
+// Background Sync isn't in lib.dom yet (Chromium only)
+interface SyncRegistration extends ServiceWorkerRegistration {
+  sync: { register: (tag: string) => Promise<void> };
+}
+
+const supportsSync = (registration: ServiceWorkerRegistration): registration is SyncRegistration => 'sync' in registration;
+
+const inFlight = new Set<string>(); // Jobs currently being enriched
+let running = false;
+let rerunRequested = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let changeListener: (() => void) | null = null;
+
+export const createPendingMetadata = (): MemoryItem['aiMetadata'] => ({
+  summary: PENDING_SUMMARY,
+  topics: [],
+  mood: [],
+  colors: []
+});
+
+const FAILED_SUMMARY = "Could not analyze content.";
+
+// Shown until analysis is retried. Only tags and a collection given at capture time are kept,
+// so a later analysis still picks its own; the memory is filed under General meanwhile.
+const createFailedMetadata = (previous: MemoryItem['aiMetadata']): MemoryItem['aiMetadata'] => ({
+  ...previous,
+  summary: FAILED_SUMMARY,
+  importance: 0.5
+});
+
+const retryDelay = (attempts: number) => Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** (attempts - 1));
+
+// Gemini needs the network; the local provider can always run
+export const canReachProvider = () => getProviderId() === 'local' || navigator.onLine;
+
+// What analysis produced, merged onto the memory as it is once analysis finishes
+interface Enrichment {
+  metadata: AIMetadata;
+  embedding: MemoryEmbedding;
+  analysisModel: string;
+  pages?: string[];
+}
+
+const enrichMemory = async (memory: MemoryItem, job: CaptureJob): Promise<Enrichment> => {
+  let mediaData: { data: string, mimeType: string } | undefined = undefined;
+  let pages: string[] | undefined = undefined;
+  if (memory.attachmentId) {
+    const attachment = await getAttachment(memory.attachmentId);
+    if (attachment) {
+      mediaData = { data: await blobToDataUrl(attachment.blob), mimeType: attachment.mimeType };
+      if (memory.type === 'pdf') {
+        // Unreadable PDFs are still analyzed from the file itself
+        pages = await extractPdfPages(attachment.blob).catch(error => {
+          console.error("PDF text extraction failed:", error);
+          return undefined;
+        });
+      }
+    }
+  }
+
+  let extractedText = pages?.join('\n').trim();
+  if (memory.type === 'link') {
+    // Re-analysis reuses the stored copy; the live page may have changed or gone
+    const snapshot = await getSnapshot(memory.id) || await captureSnapshot(memory.id, linkUrl(memory))
+      .catch(error => {
+        console.error("Link snapshot failed:", error);
+        return undefined;
+      });
+    if (snapshot) extractedText = snapshotToText(snapshot);
+  }
+  // Extracted text follows on the lines after the original content (links: the URL)
+  const content = extractedText ? `${job.contentToAnalyze}\n${extractedText.slice(0, EXCERPT_LENGTH)}` : job.contentToAnalyze;
+
+  const analysisModel = currentAnalysisModel(memory.type);
+  const [metadata, embedded] = await Promise.all([
+    analyzeContent(content, mediaData, memory.type),
+    embedText(content)
+  ]);
+
+  const refined = await embedText(`${content} ${metadata.summary} ${metadata.topics.join(' ')} ${metadata.mood.join(' ')}`);
+  const embedding = refined.embedding.length > 0 ? refined : embedded;
+  if (embedding.embedding.length === 0) throw new Error("Embedding unavailable");
+
+  return { metadata, embedding, analysisModel, pages };
+};
+
+// Saves the analysis onto the stored memory; only the AI's fields are written, so anything
+// the user changed meanwhile is kept. Resolves false when the memory is in the trash or gone.
+const saveEnrichment = async (id: string, { metadata, embedding, analysisModel, pages }: Enrichment): Promise<boolean> => {
+  const [tags, collection] = await Promise.all([
+    getAllTags(),
+    // AI picks are mapped onto existing collections, including ones the user renamed or merged away
+    resolveCollectionName(metadata.collection || 'General')
+  ]);
+  // Passages are indexed first so the memory is only marked ready once they're searchable
+  if (pages) await indexPdfPages(id, pages);
+  const current = await getMemory(id);
+  if (!current) {
+    await writePdfChunks(id); // Purged while it was analyzed
+    return false;
+  }
+  if (current.deletedAt) return false;
+
+  const enriched: MemoryItem = {
+    ...current,
+    aiMetadata: {
+      ...metadata,
+      // Tags and collection given at capture time (e.g. by an importer) win over the AI's picks;
+      // synonyms in the tag taxonomy are stored under their tag's name
+      topics: canonicalTopics([...current.aiMetadata.topics, ...metadata.topics], tags),
+      collection: current.aiMetadata.collection || collection,
+      relatedMemoryIds: current.aiMetadata.relatedMemoryIds
+    },
+    ...embedding,
+    analysisModel,
+    pageCount: pages ? pages.length : current.pageCount,
+    status: 'ready',
+    analysisError: undefined
+  };
+  await saveMemory(enriched, 'ai');
+
+  // Connect it to related memories; links made before analysis (e.g. to a duplicate the user chose to link) are kept
+  const allMemories = (await getAllMemories()).filter(m => m.status !== 'pending');
+  await relateMemories(id, await findRelatedMemories(enriched, allMemories));
+  return true;
+};
+
+// Gives up on a memory's analysis; metadata from an earlier analysis is kept
+const markFailed = async (id: string, analysisError: string): Promise<void> => {
+  const current = await getMemory(id);
+  if (!current) return;
+  await saveMemory({
+    ...current,
+    aiMetadata: current.aiMetadata.summary === PENDING_SUMMARY ? createFailedMetadata(current.aiMetadata) : current.aiMetadata,
+    status: 'failed',
+    analysisError
+  }, 'ai');
+};
+
+const scheduleRetry = (jobs: CaptureJob[]) => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  if (jobs.length === 0) return;
+  const nextAttemptAt = Math.min(...jobs.map(j => j.nextAttemptAt));
+  retryTimer = setTimeout(() => {
+    processCaptureQueue().catch(console.error);
+  }, Math.max(0, nextAttemptAt - Date.now()));
+};
+
+// Enriches one job; on failure records the attempt and schedules the next retry
+const runJob = async (job: CaptureJob, memory: MemoryItem): Promise<boolean> => {
+  if (inFlight.has(job.id)) return false;
+  inFlight.add(job.id);
+  try {
+    // Another caller may have finished it since the job list was read
+    if (!(await getCaptureJob(job.id))) return false;
+    if (!(await saveEnrichment(job.id, await enrichMemory(memory, job)))) {
+      // Trashed while it was analyzed: the job waits for a restore; purged: it's dropped
+      if (!(await getMemory(job.id))) await deleteCaptureJob(job.id);
+      return false;
+    }
+    await deleteCaptureJob(job.id);
+    changeListener?.();
+    return true;
+  } catch (error) {
+    const attempts = job.attempts + 1;
+    const lastError = error instanceof Error ? error.message : String(error);
+    if (!isRetryableError(error) || attempts >= MAX_ATTEMPTS) {
+      await markFailed(job.id, lastError);
+      await deleteCaptureJob(job.id);
+      changeListener?.();
+      return false;
+    }
+    await saveCaptureJob({ ...job, attempts, nextAttemptAt: Date.now() + retryDelay(attempts), lastError });
+    return false;
+  } finally {
+    inFlight.delete(job.id);
+  }
+};
+
+// Processes every due job; returns how many memories were enriched
+export const processCaptureQueue = async (): Promise<number> => {
+  if (running) {
+    rerunRequested = true;
+    return 0;
+  }
+  running = true;
+  let processed = 0;
+
+  try {
+    do {
+      rerunRequested = false;
+      if (!canReachProvider()) break;
+
+      const memories = new Map((await getAllMemories()).map(m => [m.id, m]));
+      const dueJobs = (await getCaptureJobs()).filter(j => j.nextAttemptAt <= Date.now() && !inFlight.has(j.id));
+
+      for (const job of dueJobs) {
+        const memory = memories.get(job.id);
+        if (!memory) {
+          // Trashed jobs wait for a restore; purged ones are dropped
+          if (!(await getMemory(job.id))) await deleteCaptureJob(job.id);
+          continue;
+        }
+
+        if (await runJob(job, memory)) {
+          processed++;
+        } else if (!canReachProvider()) {
+          break;
+        }
+      }
+    } while (rerunRequested);
+  } finally {
+    running = false;
+    scheduleRetry(await getCaptureJobs());
+  }
+
+  return processed;
+};
+
+// Enriches a single queued memory right away instead of waiting for the background pass.
+// Resolves false when it can't run now (provider offline, already running, not queued) and
+// leaves it to the background queue; rejects when analysis fails, including when it gave up.
+export const processCaptureJob = async (id: string): Promise<boolean> => {
+  if (!canReachProvider() || inFlight.has(id)) return false;
+  const job = await getCaptureJob(id);
+  const memory = job && (await getAllMemories()).find(m => m.id === id);
+  if (!job || !memory) return false;
+
+  if (!(await runJob(job, memory))) {
+    const failed = await getCaptureJob(id);
+    if (failed?.lastError) throw new Error(failed.lastError);
+    const gaveUp = await getMemory(id);
+    if (gaveUp?.status === 'failed') throw new Error(gaveUp.analysisError || "Analysis failed");
+    return false;
+  }
+  return true;
+};
+
+export const enqueueCapture = async (memoryId: string, contentToAnalyze: string, processNow: boolean = true): Promise<void> => {
+  const now = Date.now();
+  await saveCaptureJob({ id: memoryId, contentToAnalyze, attempts: 0, nextAttemptAt: now, createdAt: now });
+
+  // Ask the service worker to wake us once connectivity returns, where Background Sync exists
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.ready
+      .then(registration => supportsSync(registration) ? registration.sync.register(SYNC_TAG) : undefined)
+      .catch(() => {});
+  }
+
+  if (processNow) processCaptureQueue().catch(console.error);
+};
+
+// Analyzes memories again, keeping their tags and collection; the AI's new tags are added
+export const reanalyzeMemories = async (ids: string[], processNow: boolean = true): Promise<void> => {
+  const selected = new Set(ids);
+  const queued = await updateMemories(memory => {
+    if (!selected.has(memory.id) || memory.status === 'pending') return undefined;
+    // A memory that never got analyzed goes back to waiting for its first analysis
+    const neverAnalyzed = memory.status === 'failed' && memory.aiMetadata.summary === FAILED_SUMMARY;
+    return {
+      ...memory,
+      aiMetadata: neverAnalyzed ? { ...memory.aiMetadata, summary: PENDING_SUMMARY } : memory.aiMetadata,
+      status: 'pending'
+    };
+  });
+  for (const memory of queued) {
+    // Images saved without a caption are analyzed from the picture alone, as at capture
+    const contentToAnalyze = memory.type === 'image' && memory.content === 'Image' ? 'Visual memory' : memory.content;
+    await enqueueCapture(memory.id, contentToAnalyze, false);
+  }
+  if (processNow) processCaptureQueue().catch(console.error);
+};
+
+export const inferMemoryType = (text: string, file?: File): MemoryItem['type'] => {
+  if (file) return file.type === 'application/pdf' ? 'pdf' : 'image';
+  return /^https?:\/\//.test(text) ? 'link' : 'note';
+};
+
+// Saves a note, link, image or PDF as a pending memory and queues it for analysis
+export const captureMemory = async (
+  input: { text: string, file?: File, topics?: string[], collection?: string, createdAt?: number, relatedMemoryIds?: string[] },
+  processNow: boolean = true
+): Promise<MemoryItem> => {
+  const { text, file } = input;
+  const id = crypto.randomUUID();
+  const createdAt = input.createdAt ?? Date.now();
+  const type = inferMemoryType(text, file);
+  const contentToAnalyze = file ? text || (type === 'pdf' ? `PDF Document: ${file.name}` : "Visual memory") : text;
+
+  const memory: MemoryItem = {
+    id,
+    type,
+    content: text || (type === 'pdf' && file ? file.name : (type === 'image' ? 'Image' : '')),
+    attachmentId: file ? await storeAttachment(id, file, createdAt) : undefined,
+    aiMetadata: {
+      ...createPendingMetadata(),
+      topics: input.topics || [],
+      collection: input.collection,
+      relatedMemoryIds: input.relatedMemoryIds
+    },
+    embedding: [],
+    status: 'pending',
+    createdAt,
+    resurfaceCount: 0
+  };
+
+  await saveMemory(memory);
+  await enqueueCapture(id, contentToAnalyze, processNow);
+  return memory;
+};
+
+// Starts background processing; `onChange` fires whenever a pending memory is enriched
+export const startCaptureProcessor = (onChange: () => void): (() => void) => {
+  changeListener = onChange;
+  const run = () => {
+    processCaptureQueue().catch(console.error);
+  };
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'process-capture-queue') run();
+  };
+
+  window.addEventListener('online', run);
+  navigator.serviceWorker?.addEventListener('message', handleMessage);
+  run();
+
+  return () => {
+    changeListener = null;
+    window.removeEventListener('online', run);
+    navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+};
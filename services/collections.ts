@@ -0,0 +1,66 @@
+import { Collection } from '../types';
+import { getAllCollections, saveCollection } from './db';
+
+// Collections start out as the names the AI picks, which drift ("Design Inspo" next to
+// "Design Inspiration"). Users can create, rename, merge and reorder them; renamed and merged
+// names are kept as aliases so later AI picks are filed under the name the user chose.
+
+export const COLLECTION_COLORS = ['#F97316', '#EF4444', '#EC4899', '#A855F7', '#3B82F6', '#14B8A6', '#22C55E', '#EAB308'];
+
+const MIN_SHARED_PREFIX = 4; // "Inspo" and "Inspiration" share "insp"
+
+const words = (name: string) => name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+const singular = (word: string) => word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word;
+
+const similarWords = (a: string, b: string) => {
+  if (singular(a) === singular(b)) return true;
+  let shared = 0;
+  while (shared < a.length && a[shared] === b[shared]) shared++;
+  return shared >= MIN_SHARED_PREFIX;
+};
+
+// Same words in the same order, allowing plurals and shortened words
+export const isNearDuplicateName = (a: string, b: string): boolean => {
+  const left = words(a);
+  const right = words(b);
+  return left.length > 0 && left.length === right.length && left.every((word, i) => similarWords(word, right[i]));
+};
+
+// The existing collection an AI-picked name belongs to: by name, alias or near-duplicate name
+export const findCollection = (name: string, collections: Collection[]): Collection | undefined => {
+  const key = name.trim().toLowerCase();
+  return collections.find(c => c.name.toLowerCase() === key)
+    || collections.find(c => c.aliases?.some(alias => alias.toLowerCase() === key))
+    || collections.find(c => isNearDuplicateName(c.name, name));
+};
+
+export const resolveCollectionName = async (name: string): Promise<string> =>
+  findCollection(name, await getAllCollections())?.name || name;
+
+// Pairs of collections whose names look like the same thing; the larger one is the suggested target
+export const suggestCollectionMerges = (collections: Collection[]): { target: Collection, source: Collection }[] => {
+  const suggestions: { target: Collection, source: Collection }[] = [];
+  collections.forEach((a, i) => collections.slice(i + 1).forEach(b => {
+    if (!isNearDuplicateName(a.name, b.name)) return;
+    suggestions.push(a.memoryIds.length >= b.memoryIds.length ? { target: a, source: b } : { target: b, source: a });
+  }));
+  return suggestions;
+};
+
+export const createCollection = async (fields: Pick<Collection, 'name' | 'description' | 'color' | 'parentId'>): Promise<Collection> => {
+  const name = fields.name.trim();
+  if ((await getAllCollections()).some(c => c.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`A collection called "${name}" already exists`);
+  }
+  const collection: Collection = { ...fields, id: crypto.randomUUID(), name, memoryIds: [], createdAt: Date.now() };
+  await saveCollection(collection);
+  return collection;
+};
+
+// Stores the given order as each collection's position
+export const reorderCollections = async (ordered: Collection[]): Promise<void> => {
+  for (const [order, collection] of ordered.entries()) {
+    if (collection.order !== order) await saveCollection({ ...collection, order });
+  }
+};
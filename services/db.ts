@@ -1,9 +1,52 @@
-import { MemoryItem, Collection } from '../types';
+import { MemoryItem, Collection, MigrationProgress, Attachment, MemoryChange, VectorRecord, VectorIndexMeta, TextIndexRecord, CaptureJob, PdfChunk, LinkSnapshot, Revision, RevisionAuthor, IntegrityReport, Tag, ReviewLogEntry, ReviewSchedule } from '../types';
+import {
+  STORE_NAME,
+  COLLECTIONS_STORE,
+  ATTACHMENTS_STORE,
+  VECTORS_STORE,
+  VECTOR_META_STORE,
+  TEXT_INDEX_STORE,
+  CAPTURE_QUEUE_STORE,
+  PDF_CHUNKS_STORE,
+  SNAPSHOTS_STORE,
+  REVISIONS_STORE,
+  TAGS_STORE,
+  REVIEW_LOG_STORE,
+  LATEST_VERSION,
+  requestToPromise,
+  runMigrations,
+  updateEach
+} from './migrations';
+import { createRevision } from './revisions';
 
 const DB_NAME = 'SecondBrainDB';
-const STORE_NAME = 'memories';
-const COLLECTIONS_STORE = 'collections';
-const DB_VERSION = 2;
+const DB_VERSION = LATEST_VERSION;
+const MAX_REVISIONS = 100; // Per memory; the oldest are dropped first
+
+type MigrationListener = (progress: MigrationProgress) => void;
+const migrationListeners = new Set<MigrationListener>();
+
+export const onMigrationProgress = (listener: MigrationListener): (() => void) => {
+  migrationListeners.add(listener);
+  return () => {
+    migrationListeners.delete(listener);
+  };
+};
+
+type MemoryChangeListener = (change: MemoryChange) => void;
+const memoryChangeListeners = new Set<MemoryChangeListener>();
+
+// Lets derived structures (e.g. the vector index) follow writes to the memories store
+export const onMemoryChange = (listener: MemoryChangeListener): (() => void) => {
+  memoryChangeListeners.add(listener);
+  return () => {
+    memoryChangeListeners.delete(listener);
+  };
+};
+
+const notifyMemoryChange = (change: MemoryChange) => {
+  memoryChangeListeners.forEach(listener => listener(change));
+};
 
 export const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -11,44 +54,270 @@ export const openDB = (): Promise<IDBDatabase> => {
 
     request.onerror = () => reject('Error opening database');
 
-    request.onsuccess = () => resolve(request.result);
+    request.onblocked = () => console.warn('Database upgrade blocked by another open tab');
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab upgrade the schema instead of blocking it
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      
-      // Upgrade existing store or create new one
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-        store.createIndex('createdAt', 'createdAt', { unique: false });
-      } else {
-        // If store exists, check if we need to add the collection index
-        // Note: IndexedDB doesn't support nested property indexing, so we'll filter in memory
-        const store = (event.target as IDBOpenDBRequest).transaction!.objectStore(STORE_NAME);
-        if (!store.indexNames.contains('createdAt')) {
-          store.createIndex('createdAt', 'createdAt', { unique: false });
-        }
+      const db = request.result;
+      const transaction = request.transaction!;
+      runMigrations(db, transaction, event.oldVersion, (progress) => {
+        migrationListeners.forEach(listener => listener(progress));
+      }).catch((error) => {
+        // The transaction is already aborted, so request.onerror rejects the open
+        console.error('Database migration failed:', error);
+      });
+    };
+  });
+};
+
+const revisionRange = (memoryId: string) => IDBKeyRange.bound([memoryId, 0], [memoryId, Infinity]);
+
+// Adds a revision inside the caller's transaction, dropping the oldest past MAX_REVISIONS
+const addRevision = (store: IDBObjectStore, revision: Revision) => {
+  store.put(revision);
+  const request = store.index('memoryTime').getAllKeys(revisionRange(revision.memoryId));
+  request.onsuccess = () => {
+    request.result.slice(0, Math.max(0, request.result.length - MAX_REVISIONS)).forEach(key => store.delete(key));
+  };
+};
+
+const withRelated = (memory: MemoryItem, relatedMemoryIds: string[]): MemoryItem =>
+  ({ ...memory, aiMetadata: { ...memory.aiMetadata, relatedMemoryIds } });
+
+// The collection a memory is listed in; pending memories join one once analyzed
+const collectionOf = (memory?: MemoryItem): string | undefined =>
+  !memory || memory.status === 'pending' ? undefined : memory.aiMetadata.collection || 'General';
+
+// Adds or removes `id` on the other end of each relation, inside the caller's transaction.
+// Returns the ids that exist and the memories it changed.
+const updateOtherEnds = async (
+  store: IDBObjectStore,
+  id: string,
+  relatedIds: string[],
+  link: boolean
+): Promise<{ existing: string[], changed: MemoryItem[] }> => {
+  const existing: string[] = [];
+  const changed: MemoryItem[] = [];
+  for (const otherId of new Set(relatedIds)) {
+    if (otherId === id) continue;
+    const other = await requestToPromise(store.get(otherId)) as MemoryItem | undefined;
+    if (!other) continue;
+    existing.push(otherId);
+    const current = other.aiMetadata.relatedMemoryIds || [];
+    if (current.includes(id) === link) continue;
+    const updated = withRelated(other, link ? [...current, id] : current.filter(r => r !== id));
+    store.put(updated);
+    changed.push(updated);
+  }
+  return { existing, changed };
+};
+
+// Moves the memory between collections' member lists when its collection changes
+const updateMembership = async (store: IDBObjectStore, previous: MemoryItem | undefined, saved: MemoryItem) => {
+  const target = collectionOf(saved);
+  if (collectionOf(previous) === target) return;
+  const collections = await requestToPromise(store.getAll()) as Collection[];
+  collections.forEach(collection => {
+    const isMember = collection.memoryIds.includes(saved.id);
+    if (isMember === (collection.name === target)) return;
+    store.put({
+      ...collection,
+      memoryIds: isMember ? collection.memoryIds.filter(id => id !== saved.id) : [...collection.memoryIds, saved.id]
+    });
+  });
+  if (target && !collections.some(c => c.name === target)) {
+    store.put({ id: crypto.randomUUID(), name: target, memoryIds: [saved.id], createdAt: Date.now() });
+  }
+};
+
+// Saves the memory, its collection membership and a revision of what changed in one transaction.
+// Connections of an existing memory only change through relateMemories/unrelateMemories, so
+// saving a stale copy can't drop links made since; a new memory is linked from both ends.
+export const saveMemory = async (memory: MemoryItem, author: RevisionAuthor = 'user', revertOf?: string): Promise<void> => {
+  const db = await openDB();
+  let saved = memory;
+  const changed: MemoryItem[] = [];
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, COLLECTIONS_STORE, REVISIONS_STORE], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const write = async () => {
+      const previous = await requestToPromise(store.get(memory.id)) as MemoryItem | undefined;
+      let related = previous?.aiMetadata.relatedMemoryIds || [];
+      if (!previous) {
+        const linked = await updateOtherEnds(store, memory.id, memory.aiMetadata.relatedMemoryIds || [], true);
+        related = linked.existing;
+        changed.push(...linked.changed);
       }
-      
-      if (!db.objectStoreNames.contains(COLLECTIONS_STORE)) {
-        const collectionsStore = db.createObjectStore(COLLECTIONS_STORE, { keyPath: 'id' });
-        collectionsStore.createIndex('createdAt', 'createdAt', { unique: false });
+      saved = withRelated(memory, related);
+      store.put(saved);
+      await updateMembership(transaction.objectStore(COLLECTIONS_STORE), previous, saved);
+      const revision = createRevision(previous, saved, author, revertOf);
+      if (revision) addRevision(transaction.objectStore(REVISIONS_STORE), revision);
+    };
+    write().catch(() => transaction.abort());
+
+    transaction.oncomplete = () => {
+      notifyMemoryChange({ type: 'put', memory: saved });
+      changed.forEach(other => notifyMemoryChange({ type: 'put', memory: other }));
+      resolve();
+    };
+    transaction.onerror = () => reject('Error saving memory');
+    transaction.onabort = () => reject('Error saving memory');
+  });
+};
+
+// Applies `update` to every memory in one transaction, keeping connections as stored and
+// collection members in step. Returns the memories that changed.
+export const updateMemories = async (
+  update: (memory: MemoryItem) => MemoryItem | undefined,
+  author: RevisionAuthor = 'user'
+): Promise<MemoryItem[]> => {
+  const db = await openDB();
+  const changed: MemoryItem[] = [];
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, COLLECTIONS_STORE, REVISIONS_STORE], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const write = async () => {
+      const memories = await requestToPromise(store.getAll()) as MemoryItem[];
+      for (const previous of memories) {
+        const updated = update(previous);
+        if (!updated) continue;
+        const saved = withRelated(updated, previous.aiMetadata.relatedMemoryIds || []);
+        store.put(saved);
+        await updateMembership(transaction.objectStore(COLLECTIONS_STORE), previous, saved);
+        const revision = createRevision(previous, saved, author);
+        if (revision) addRevision(transaction.objectStore(REVISIONS_STORE), revision);
+        changed.push(saved);
       }
     };
+    write().catch(() => transaction.abort());
+
+    transaction.oncomplete = () => {
+      changed.forEach(memory => notifyMemoryChange({ type: 'put', memory }));
+      resolve(changed);
+    };
+    transaction.onerror = () => reject('Error updating memories');
+    transaction.onabort = () => reject('Error updating memories');
   });
 };
 
-export const saveMemory = async (memory: MemoryItem): Promise<void> => {
+const changeRelations = async (id: string, relatedIds: string[], link: boolean): Promise<void> => {
   const db = await openDB();
+  const changed: MemoryItem[] = [];
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([STORE_NAME], 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(memory);
+    const write = async () => {
+      const memory = await requestToPromise(store.get(id)) as MemoryItem | undefined;
+      if (!memory) return;
+      const others = await updateOtherEnds(store, id, relatedIds, link);
+      const current = memory.aiMetadata.relatedMemoryIds || [];
+      const related = link
+        ? Array.from(new Set([...current, ...others.existing]))
+        : current.filter(r => !relatedIds.includes(r));
+      if (related.length !== current.length) {
+        const updated = withRelated(memory, related);
+        store.put(updated);
+        changed.push(updated);
+      }
+      changed.push(...others.changed);
+    };
+    write().catch(() => transaction.abort());
 
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject('Error saving memory');
+    transaction.oncomplete = () => {
+      changed.forEach(memory => notifyMemoryChange({ type: 'put', memory }));
+      resolve();
+    };
+    transaction.onerror = () => reject('Error updating connections');
+    transaction.onabort = () => reject('Error updating connections');
+  });
+};
+
+// Connects a memory to each of `relatedIds` on both ends; ids that don't exist are ignored
+export const relateMemories = (id: string, relatedIds: string[]): Promise<void> => changeRelations(id, relatedIds, true);
+
+export const unrelateMemories = (id: string, relatedIds: string[]): Promise<void> => changeRelations(id, relatedIds, false);
+
+// Scans every memory and collection and fixes what the write paths above should have kept
+// consistent: links to missing memories, links held by one side only, repeated links, and
+// collection member lists that don't match the memories' collections
+export const repairIntegrity = async (): Promise<IntegrityReport> => {
+  const db = await openDB();
+  const report: IntegrityReport = { memoriesChecked: 0, orphanedLinks: 0, asymmetricLinks: 0, collectionsFixed: 0 };
+  const changed: MemoryItem[] = [];
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, COLLECTIONS_STORE], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const collectionStore = transaction.objectStore(COLLECTIONS_STORE);
+    const repair = async () => {
+      const memories = await requestToPromise(store.getAll()) as MemoryItem[];
+      const byId = new Map(memories.map(m => [m.id, m]));
+      report.memoriesChecked = memories.length;
+
+      const related = new Map<string, string[]>();
+      memories.forEach(memory => {
+        const ids = memory.aiMetadata.relatedMemoryIds || [];
+        const valid = Array.from(new Set(ids.filter(id => id !== memory.id && byId.has(id))));
+        report.orphanedLinks += ids.length - valid.length;
+        related.set(memory.id, valid);
+      });
+      // A link held by one side is treated as meant, and added to the other
+      related.forEach((ids, id) => ids.forEach(otherId => {
+        const other = related.get(otherId)!;
+        if (other.includes(id)) return;
+        other.push(id);
+        report.asymmetricLinks++;
+      }));
+      memories.forEach(memory => {
+        const ids = related.get(memory.id)!;
+        const current = memory.aiMetadata.relatedMemoryIds || [];
+        if (ids.length === current.length && ids.every((id, i) => id === current[i])) return;
+        const updated = withRelated(memory, ids);
+        store.put(updated);
+        changed.push(updated);
+      });
+
+      const members = new Map<string, string[]>();
+      memories.forEach(memory => {
+        const name = collectionOf(memory);
+        if (name) members.set(name, [...(members.get(name) || []), memory.id]);
+      });
+      const collections = await requestToPromise(collectionStore.getAll()) as Collection[];
+      collections.forEach(collection => {
+        const expected = new Set(members.get(collection.name) || []);
+        members.delete(collection.name);
+        // Keep the existing order, then append missing members
+        const memoryIds = [
+          ...collection.memoryIds.filter(id => expected.has(id)),
+          ...Array.from(expected).filter(id => !collection.memoryIds.includes(id))
+        ];
+        if (memoryIds.length === collection.memoryIds.length && memoryIds.every((id, i) => id === collection.memoryIds[i])) return;
+        collectionStore.put({ ...collection, memoryIds: Array.from(new Set(memoryIds)) });
+        report.collectionsFixed++;
+      });
+      members.forEach((memoryIds, name) => {
+        collectionStore.put({ id: crypto.randomUUID(), name, memoryIds, createdAt: Date.now() });
+        report.collectionsFixed++;
+      });
+    };
+    repair().catch(() => transaction.abort());
+
+    transaction.oncomplete = () => {
+      changed.forEach(memory => notifyMemoryChange({ type: 'put', memory }));
+      resolve(report);
+    };
+    transaction.onerror = () => reject('Error repairing database');
+    transaction.onabort = () => reject('Error repairing database');
   });
 };
 
+// Memories in the trash are left out; see getTrashedMemories
 export const getAllMemories = async (): Promise<MemoryItem[]> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
@@ -60,22 +329,149 @@ export const getAllMemories = async (): Promise<MemoryItem[]> => {
 
     request.onsuccess = () => {
       // Sort newest first
-      const results = request.result as MemoryItem[];
+      const results = (request.result as MemoryItem[]).filter(m => !m.deletedAt);
       resolve(results.sort((a, b) => b.createdAt - a.createdAt));
     };
     request.onerror = () => reject('Error fetching memories');
   });
 };
 
-export const deleteMemory = async (id: string): Promise<void> => {
+export const getTrashedMemories = async (): Promise<MemoryItem[]> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const transaction = db.transaction([STORE_NAME], 'readonly');
     const store = transaction.objectStore(STORE_NAME);
+    const request = store.getAll();
+
+    request.onsuccess = () => {
+      // Most recently deleted first
+      const results = (request.result as MemoryItem[]).filter(m => m.deletedAt);
+      resolve(results.sort((a, b) => b.deletedAt! - a.deletedAt!));
+    };
+    request.onerror = () => reject('Error fetching trash');
+  });
+};
+
+export const getMemory = async (id: string): Promise<MemoryItem | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(id);
+
+    request.onsuccess = () => resolve(request.result as MemoryItem | undefined);
+    request.onerror = () => reject('Error fetching memory');
+  });
+};
+
+// Permanently deletes memories with their attachments, snapshots and history, and removes
+// them from other memories' connections and from collections, all in one transaction
+export const deleteMemories = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDB();
+  const removed = new Set(ids);
+  const unlinked: MemoryItem[] = [];
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      [STORE_NAME, COLLECTIONS_STORE, ATTACHMENTS_STORE, SNAPSHOTS_STORE, REVISIONS_STORE],
+      'readwrite'
+    );
+    const memories = transaction.objectStore(STORE_NAME);
+    const attachments = transaction.objectStore(ATTACHMENTS_STORE);
+    const revisions = transaction.objectStore(REVISIONS_STORE);
+
+    ids.forEach(id => {
+      memories.delete(id);
+      transaction.objectStore(SNAPSHOTS_STORE).delete(id);
+      const attachmentKeys = attachments.index('memoryId').getAllKeys(id);
+      attachmentKeys.onsuccess = () => attachmentKeys.result.forEach(key => attachments.delete(key));
+      const revisionKeys = revisions.index('memoryTime').getAllKeys(revisionRange(id));
+      revisionKeys.onsuccess = () => revisionKeys.result.forEach(key => revisions.delete(key));
+    });
+
+    updateEach<MemoryItem>(memories, memory => {
+      const related = memory.aiMetadata.relatedMemoryIds;
+      if (removed.has(memory.id) || !related?.some(id => removed.has(id))) return undefined;
+      const updated = { ...memory, aiMetadata: { ...memory.aiMetadata, relatedMemoryIds: related.filter(id => !removed.has(id)) } };
+      unlinked.push(updated);
+      return updated;
+    }).catch(() => transaction.abort());
+    updateEach<Collection>(transaction.objectStore(COLLECTIONS_STORE), collection =>
+      collection.memoryIds.some(id => removed.has(id))
+        ? { ...collection, memoryIds: collection.memoryIds.filter(id => !removed.has(id)) }
+        : undefined
+    ).catch(() => transaction.abort());
+
+    transaction.oncomplete = () => {
+      ids.forEach(id => notifyMemoryChange({ type: 'delete', id }));
+      unlinked.forEach(memory => notifyMemoryChange({ type: 'put', memory }));
+      resolve();
+    };
+    transaction.onerror = () => reject('Error deleting memory');
+    transaction.onabort = () => reject('Error deleting memory');
+  });
+};
+
+export const deleteMemory = (id: string): Promise<void> => deleteMemories([id]);
+
+// Attachments (binary payloads for images and PDFs)
+export const saveAttachment = async (attachment: Attachment): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ATTACHMENTS_STORE], 'readwrite');
+    const store = transaction.objectStore(ATTACHMENTS_STORE);
+    const request = store.put(attachment);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject('Error saving attachment');
+  });
+};
+
+export const deleteAttachment = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ATTACHMENTS_STORE], 'readwrite');
+    const store = transaction.objectStore(ATTACHMENTS_STORE);
     const request = store.delete(id);
 
     request.onsuccess = () => resolve();
-    request.onerror = () => reject('Error deleting memory');
+    request.onerror = () => reject('Error deleting attachment');
+  });
+};
+
+export const getAttachment = async (id: string): Promise<Attachment | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ATTACHMENTS_STORE], 'readonly');
+    const store = transaction.objectStore(ATTACHMENTS_STORE);
+    const request = store.get(id);
+
+    request.onsuccess = () => resolve(request.result as Attachment | undefined);
+    request.onerror = () => reject('Error fetching attachment');
+  });
+};
+
+export const getAttachmentsByHash = async (hash: string): Promise<Attachment[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ATTACHMENTS_STORE], 'readonly');
+    const store = transaction.objectStore(ATTACHMENTS_STORE);
+    const request = store.index('hash').getAll(hash);
+
+    request.onsuccess = () => resolve(request.result as Attachment[]);
+    request.onerror = () => reject('Error fetching attachments by hash');
+  });
+};
+
+export const getAllAttachments = async (): Promise<Attachment[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ATTACHMENTS_STORE], 'readonly');
+    const store = transaction.objectStore(ATTACHMENTS_STORE);
+    const request = store.getAll();
+
+    request.onsuccess = () => resolve(request.result as Attachment[]);
+    request.onerror = () => reject('Error fetching attachments');
   });
 };
 
@@ -99,14 +495,162 @@ export const getAllCollections = async (): Promise<Collection[]> => {
     const store = transaction.objectStore(COLLECTIONS_STORE);
     const request = store.getAll();
 
+    // Hand-ordered collections follow the ones made since, which come newest first
     request.onsuccess = () => {
       const results = request.result as Collection[];
-      resolve(results.sort((a, b) => b.createdAt - a.createdAt));
+      resolve(results.sort((a, b) => (a.order ?? -1) - (b.order ?? -1) || b.createdAt - a.createdAt));
     };
     request.onerror = () => reject('Error fetching collections');
   });
 };
 
+// The collection name a memory is filed under, including pending memories given one at capture
+const filedUnder = (memory: MemoryItem): string | undefined => memory.aiMetadata.collection || collectionOf(memory);
+
+// Refiles every memory under one of `names` to `target` and lists the moved ones in the target
+// collection, recording a revision for each memory, inside the caller's transaction
+const refileMemories = async (
+  transaction: IDBTransaction,
+  names: string[],
+  target: Collection,
+  changed: MemoryItem[]
+): Promise<void> => {
+  const store = transaction.objectStore(STORE_NAME);
+  const revisions = transaction.objectStore(REVISIONS_STORE);
+  const memberIds = new Set(target.memoryIds);
+  const memories = await requestToPromise(store.getAll()) as MemoryItem[];
+  memories.forEach(memory => {
+    const name = filedUnder(memory);
+    if (!name || !names.includes(name)) return;
+    const updated = { ...memory, aiMetadata: { ...memory.aiMetadata, collection: target.name } };
+    store.put(updated);
+    const revision = createRevision(memory, updated, 'user');
+    if (revision) addRevision(revisions, revision);
+    if (collectionOf(updated)) memberIds.add(memory.id);
+    changed.push(updated);
+  });
+  transaction.objectStore(COLLECTIONS_STORE).put({ ...target, memoryIds: Array.from(memberIds) });
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Runs a collection change that refiles memories, notifying listeners of every moved memory
+const changeCollections = async (
+  change: (transaction: IDBTransaction, collections: Collection[], changed: MemoryItem[]) => Promise<void>
+): Promise<void> => {
+  const db = await openDB();
+  const changed: MemoryItem[] = [];
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, COLLECTIONS_STORE, REVISIONS_STORE], 'readwrite');
+    let failure = 'Error updating collections';
+    requestToPromise(transaction.objectStore(COLLECTIONS_STORE).getAll())
+      .then(collections => change(transaction, collections as Collection[], changed))
+      .catch(error => {
+        if (typeof error === 'string') failure = error;
+        transaction.abort();
+      });
+
+    transaction.oncomplete = () => {
+      changed.forEach(memory => notifyMemoryChange({ type: 'put', memory }));
+      resolve();
+    };
+    transaction.onabort = () => reject(failure);
+  });
+};
+
+// Renames a collection and refiles its memories; the old name becomes an alias so the AI's later picks land here
+export const renameCollection = (id: string, name: string): Promise<void> =>
+  changeCollections(async (transaction, collections, changed) => {
+    const collection = collections.find(c => c.id === id);
+    const newName = name.trim();
+    if (!collection || !newName || collection.name === newName) return;
+    if (collections.some(c => c.id !== id && sameName(c.name, newName))) {
+      throw `A collection called "${newName}" already exists`;
+    }
+    const aliases = Array.from(new Set([...(collection.aliases || []), collection.name]))
+      .filter(alias => !sameName(alias, newName));
+    await refileMemories(transaction, [collection.name], { ...collection, name: newName, aliases }, changed);
+  });
+
+// Folds the source collections into the target: their memories move and their names become aliases
+export const mergeCollections = (targetId: string, sourceIds: string[]): Promise<void> =>
+  changeCollections(async (transaction, collections, changed) => {
+    const target = collections.find(c => c.id === targetId);
+    const sources = collections.filter(c => sourceIds.includes(c.id) && c.id !== targetId);
+    if (!target || sources.length === 0) return;
+    const aliases = Array.from(new Set([
+      ...(target.aliases || []),
+      ...sources.flatMap(c => [c.name, ...(c.aliases || [])])
+    ])).filter(alias => !sameName(alias, target.name));
+    // A target nested in a source takes the source's place in the tree
+    const merged = new Set(sources.map(c => c.id));
+    const unvisited = new Set(merged);
+    let parentId = target.parentId;
+    while (parentId && unvisited.delete(parentId)) parentId = collections.find(c => c.id === parentId)?.parentId;
+    await refileMemories(transaction, sources.map(c => c.name), { ...target, aliases, parentId }, changed);
+    sources.forEach(c => transaction.objectStore(COLLECTIONS_STORE).delete(c.id));
+    // Sub-collections of the sources now nest under the target
+    collections
+      .filter(c => c.parentId && merged.has(c.parentId) && !merged.has(c.id) && c.id !== target.id)
+      .forEach(c => transaction.objectStore(COLLECTIONS_STORE).put({ ...c, parentId: target.id }));
+  });
+
+// Deletes a collection, refiling its memories under `fallback` (created if needed)
+export const deleteCollection = (id: string, fallback: string = 'General'): Promise<void> =>
+  changeCollections(async (transaction, collections, changed) => {
+    const collection = collections.find(c => c.id === id);
+    if (!collection || sameName(collection.name, fallback)) return;
+    const target = collections.find(c => sameName(c.name, fallback))
+      || { id: crypto.randomUUID(), name: fallback, memoryIds: [], createdAt: Date.now() };
+    await refileMemories(transaction, [collection.name], target, changed);
+    transaction.objectStore(COLLECTIONS_STORE).delete(collection.id);
+    // Sub-collections move up a level
+    collections
+      .filter(c => c.parentId === collection.id)
+      .forEach(c => transaction.objectStore(COLLECTIONS_STORE).put({ ...c, parentId: collection.parentId }));
+  });
+
+export const saveTag = async (tag: Tag): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([TAGS_STORE], 'readwrite');
+    const request = transaction.objectStore(TAGS_STORE).put(tag);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject('Error saving tag');
+  });
+};
+
+export const getAllTags = async (): Promise<Tag[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([TAGS_STORE], 'readonly');
+    const request = transaction.objectStore(TAGS_STORE).getAll();
+
+    request.onsuccess = () => resolve((request.result as Tag[]).sort((a, b) => a.name.localeCompare(b.name)));
+    request.onerror = () => reject('Error fetching tags');
+  });
+};
+
+// Removes a tag from the taxonomy; its child tags move up a level. Memories keep their topics.
+export const deleteTag = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([TAGS_STORE], 'readwrite');
+    const store = transaction.objectStore(TAGS_STORE);
+    requestToPromise(store.getAll()).then(results => {
+      const tags = results as Tag[];
+      const tag = tags.find(t => t.id === id);
+      if (!tag) return;
+      tags.filter(t => t.parentId === id).forEach(t => store.put({ ...t, parentId: tag.parentId }));
+      store.delete(id);
+    }).catch(() => transaction.abort());
+
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject('Error deleting tag');
+  });
+};
+
 export const getMemoriesByCollection = async (collectionName: string): Promise<MemoryItem[]> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
@@ -117,10 +661,235 @@ export const getMemoriesByCollection = async (collectionName: string): Promise<M
     request.onsuccess = () => {
       // Filter in memory since IndexedDB doesn't support nested property indexing
       const results = (request.result as MemoryItem[])
-        .filter(m => (m.aiMetadata.collection || 'General') === collectionName)
+        .filter(m => !m.deletedAt && (m.aiMetadata.collection || 'General') === collectionName)
         .sort((a, b) => b.createdAt - a.createdAt);
       resolve(results);
     };
     request.onerror = () => reject('Error fetching memories by collection');
   });
 };
+
+// Vector Index
+export const getVectorIndexData = async (): Promise<{ records: VectorRecord[], meta: VectorIndexMeta | null }> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([VECTORS_STORE, VECTOR_META_STORE], 'readonly');
+    const recordsRequest = transaction.objectStore(VECTORS_STORE).getAll();
+    const metaRequest = transaction.objectStore(VECTOR_META_STORE).get('ivf');
+
+    transaction.oncomplete = () => resolve({
+      records: recordsRequest.result as VectorRecord[],
+      meta: (metaRequest.result as VectorIndexMeta | undefined) || null
+    });
+    transaction.onerror = () => reject('Error fetching vector index');
+  });
+};
+
+// Writes records and removals in one transaction; pass meta to replace the trained centroids
+export const writeVectorIndex = async (
+  records: VectorRecord[],
+  removedIds: string[] = [],
+  meta?: VectorIndexMeta | null
+): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([VECTORS_STORE, VECTOR_META_STORE], 'readwrite');
+    const store = transaction.objectStore(VECTORS_STORE);
+    records.forEach(record => store.put(record));
+    removedIds.forEach(id => store.delete(id));
+    if (meta) transaction.objectStore(VECTOR_META_STORE).put(meta);
+    if (meta === null) transaction.objectStore(VECTOR_META_STORE).delete('ivf');
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error saving vector index');
+  });
+};
+
+// Full-text Index
+export const getTextIndexRecords = async (): Promise<TextIndexRecord[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([TEXT_INDEX_STORE], 'readonly');
+    const store = transaction.objectStore(TEXT_INDEX_STORE);
+    const request = store.getAll();
+
+    request.onsuccess = () => resolve(request.result as TextIndexRecord[]);
+    request.onerror = () => reject('Error fetching text index');
+  });
+};
+
+export const writeTextIndex = async (records: TextIndexRecord[], removedIds: string[] = []): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([TEXT_INDEX_STORE], 'readwrite');
+    const store = transaction.objectStore(TEXT_INDEX_STORE);
+    records.forEach(record => store.put(record));
+    removedIds.forEach(id => store.delete(id));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error saving text index');
+  });
+};
+
+// Capture Queue
+export const saveCaptureJob = async (job: CaptureJob): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CAPTURE_QUEUE_STORE], 'readwrite');
+    const store = transaction.objectStore(CAPTURE_QUEUE_STORE);
+    const request = store.put(job);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject('Error saving capture job');
+  });
+};
+
+export const getCaptureJobs = async (): Promise<CaptureJob[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CAPTURE_QUEUE_STORE], 'readonly');
+    const store = transaction.objectStore(CAPTURE_QUEUE_STORE);
+    const request = store.getAll();
+
+    request.onsuccess = () => {
+      const results = request.result as CaptureJob[];
+      resolve(results.sort((a, b) => a.nextAttemptAt - b.nextAttemptAt));
+    };
+    request.onerror = () => reject('Error fetching capture jobs');
+  });
+};
+
+export const getCaptureJob = async (id: string): Promise<CaptureJob | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CAPTURE_QUEUE_STORE], 'readonly');
+    const store = transaction.objectStore(CAPTURE_QUEUE_STORE);
+    const request = store.get(id);
+
+    request.onsuccess = () => resolve(request.result as CaptureJob | undefined);
+    request.onerror = () => reject('Error fetching capture job');
+  });
+};
+
+export const deleteCaptureJob = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CAPTURE_QUEUE_STORE], 'readwrite');
+    const store = transaction.objectStore(CAPTURE_QUEUE_STORE);
+    const request = store.delete(id);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject('Error deleting capture job');
+  });
+};
+
+// PDF Page Chunks
+export const getPdfChunks = async (): Promise<PdfChunk[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([PDF_CHUNKS_STORE], 'readonly');
+    const store = transaction.objectStore(PDF_CHUNKS_STORE);
+    const request = store.getAll();
+
+    request.onsuccess = () => resolve(request.result as PdfChunk[]);
+    request.onerror = () => reject('Error fetching PDF chunks');
+  });
+};
+
+// Replaces every chunk of a memory in one transaction; pass no chunks to just delete them
+export const writePdfChunks = async (memoryId: string, chunks: PdfChunk[] = []): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([PDF_CHUNKS_STORE], 'readwrite');
+    const store = transaction.objectStore(PDF_CHUNKS_STORE);
+    const request = store.index('memoryId').getAllKeys(memoryId);
+    request.onsuccess = () => {
+      request.result.forEach(key => store.delete(key));
+      chunks.forEach(chunk => store.put(chunk));
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error saving PDF chunks');
+  });
+};
+
+// Link Snapshots
+export const saveSnapshot = async (snapshot: LinkSnapshot): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SNAPSHOTS_STORE], 'readwrite');
+    const store = transaction.objectStore(SNAPSHOTS_STORE);
+    const request = store.put(snapshot);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject('Error saving snapshot');
+  });
+};
+
+export const getSnapshot = async (memoryId: string): Promise<LinkSnapshot | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SNAPSHOTS_STORE], 'readonly');
+    const store = transaction.objectStore(SNAPSHOTS_STORE);
+    const request = store.get(memoryId);
+
+    request.onsuccess = () => resolve(request.result as LinkSnapshot | undefined);
+    request.onerror = () => reject('Error fetching snapshot');
+  });
+};
+
+
+// Revision History
+export const getRevisions = async (memoryId: string): Promise<Revision[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([REVISIONS_STORE], 'readonly');
+    const store = transaction.objectStore(REVISIONS_STORE);
+    const request = store.index('memoryTime').getAll(revisionRange(memoryId));
+
+    // Newest first
+    request.onsuccess = () => resolve((request.result as Revision[]).reverse());
+    request.onerror = () => reject('Error fetching revisions');
+  });
+};
+
+// Spaced Repetition
+// Stores a review's new schedule on the memory and logs the review, in one transaction.
+// Resolves to the updated memory, or undefined if it was deleted meanwhile.
+export const recordReview = async (
+  memoryId: string,
+  schedule: ReviewSchedule,
+  entry: ReviewLogEntry
+): Promise<MemoryItem | undefined> => {
+  const db = await openDB();
+  let saved: MemoryItem | undefined;
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, REVIEW_LOG_STORE], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    requestToPromise(store.get(memoryId)).then(result => {
+      const memory = result as MemoryItem | undefined;
+      if (!memory) return;
+      saved = { ...memory, review: schedule, lastResurfaced: entry.reviewedAt, resurfaceCount: (memory.resurfaceCount || 0) + 1 };
+      store.put(saved);
+      transaction.objectStore(REVIEW_LOG_STORE).put(entry);
+    }).catch(() => transaction.abort());
+
+    transaction.oncomplete = () => {
+      if (saved) notifyMemoryChange({ type: 'put', memory: saved });
+      resolve(saved);
+    };
+    transaction.onabort = () => reject('Error recording review');
+  });
+};
+
+// Reviews since `since`, oldest first. Kept after their memory is deleted so streaks don't change.
+export const getReviewLog = async (since: number = 0): Promise<ReviewLogEntry[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([REVIEW_LOG_STORE], 'readonly');
+    const request = transaction.objectStore(REVIEW_LOG_STORE).index('reviewedAt').getAll(IDBKeyRange.lowerBound(since));
+
+    request.onsuccess = () => resolve(request.result as ReviewLogEntry[]);
+    request.onerror = () => reject('Error fetching review log');
+  });
+};
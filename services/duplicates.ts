@@ -0,0 +1,231 @@
+import { DuplicateGroup, DuplicateMatch, DuplicateReason, MemoryItem } from '../types';
+import { getAllAttachments, getAttachmentsByHash, relateMemories, saveMemory } from './db';
+import { backfillAttachmentHashes, hashBlob } from './attachments';
+import { trashMemories } from './bulkActions';
+import { enqueueCapture, inferMemoryType } from './captureQueue';
+import { embedText } from './gemini';
+import { queryVectorIndex } from './vectorIndex';
+import { linkUrl } from './snapshot';
+
+// Exact duplicates share a normalized URL, note text or attachment hash; near duplicates
+// are notes whose embeddings are almost identical.
+
+export const NEAR_DUPLICATE_THRESHOLD = 0.85; // Lenient: the user confirms every match before anything changes
+const MIN_SIMILAR_LENGTH = 40; // Short notes share too many words to compare meaningfully
+const TRACKING_PARAMS = /^(utm_[a-z]+|fbclid|gclid|dclid|mc_cid|mc_eid|igshid|ref_src|si)$/i;
+const IGNORED_GROUPS_KEY = 'memory.ignoredDuplicates';
+
+// Same page regardless of scheme, www/mobile host, trailing slash, fragment or tracking params
+export const normalizeUrl = (value: string): string | null => {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    Array.from(url.searchParams.keys())
+      .filter(key => TRACKING_PARAMS.test(key))
+      .forEach(key => url.searchParams.delete(key));
+    url.searchParams.sort();
+    const host = url.hostname.toLowerCase().replace(/^(www|m|mobile)\./, '');
+    const query = url.searchParams.toString();
+    return `${host}${url.port ? `:${url.port}` : ''}${url.pathname.replace(/\/+$/, '')}${query ? `?${query}` : ''}`;
+  } catch {
+    return null;
+  }
+};
+
+// Normalized form used to spot the same note or link saved twice
+export const contentKey = (item: Pick<MemoryItem, 'type' | 'content'>): string => {
+  const url = item.type === 'link' ? normalizeUrl(linkUrl(item)) : null;
+  if (url) return `link:${url}`;
+  return `${item.type}:${item.content.replace(/\s+/g, ' ').trim().toLowerCase()}`;
+};
+
+// Images and PDFs carry placeholder content, so only notes and links compare by text
+const hasComparableContent = (memory: Pick<MemoryItem, 'type'>) => memory.type === 'note' || memory.type === 'link';
+
+const uniqueIgnoringCase = (values: string[]) => {
+  const seen = new Set<string>();
+  return values.filter(v => {
+    const key = v.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Existing memories that the note, link or file about to be saved would duplicate
+export const findDuplicatesFor = async (
+  input: { text: string, file?: File },
+  memories: MemoryItem[]
+): Promise<DuplicateMatch[]> => {
+  const byId = new Map<string, MemoryItem>(memories.map(m => [m.id, m]));
+  const matches = new Map<string, DuplicateMatch>();
+  const add = (memory: MemoryItem | undefined, reason: DuplicateReason, similarity: number) => {
+    if (memory && !matches.has(memory.id)) matches.set(memory.id, { memory, reason, similarity });
+  };
+
+  if (input.file) {
+    const attachments = await getAttachmentsByHash(await hashBlob(input.file));
+    attachments.forEach(a => add(byId.get(a.memoryId), 'attachment', 1));
+    return Array.from(matches.values());
+  }
+
+  const type = inferMemoryType(input.text);
+  const key = contentKey({ type, content: input.text });
+  memories
+    .filter(m => hasComparableContent(m) && contentKey(m) === key)
+    .forEach(m => add(m, type === 'link' ? 'url' : 'content', 1));
+
+  if (type === 'note' && input.text.trim().length >= MIN_SIMILAR_LENGTH) {
+    const { embedding, embeddingModel } = await embedText(input.text);
+    const similar = await queryVectorIndex(embedding, {
+      k: 3,
+      minScore: NEAR_DUPLICATE_THRESHOLD,
+      filter: id => byId.get(id)?.type === 'note' && byId.get(id)?.embeddingModel === embeddingModel
+    });
+    similar.forEach(({ id, score }) => add(byId.get(id), 'similar', score));
+  }
+
+  return Array.from(matches.values());
+};
+
+const groupKey = (memoryIds: string[]) => [...memoryIds].sort().join(',');
+
+const getIgnoredGroups = (): Set<string> => {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(IGNORED_GROUPS_KEY) || '[]'));
+  } catch {
+    return new Set();
+  }
+};
+
+// "Keep all": stop reporting this exact group (it comes back if another duplicate joins it)
+export const ignoreDuplicateGroup = (group: DuplicateGroup) => {
+  const ignored = getIgnoredGroups();
+  ignored.add(groupKey(group.memoryIds));
+  localStorage.setItem(IGNORED_GROUPS_KEY, JSON.stringify(Array.from(ignored)));
+};
+
+// Sweeps the whole library and groups memories that duplicate each other
+export const findDuplicateGroups = async (memories: MemoryItem[]): Promise<DuplicateGroup[]> => {
+  await backfillAttachmentHashes();
+  const ready = memories.filter(m => m.status !== 'pending');
+  const byId = new Map<string, MemoryItem>(ready.map(m => [m.id, m]));
+
+  // Union-find over memory ids, keeping the edges so each group can report why it formed
+  const parent = new Map<string, string>(ready.map(m => [m.id, m.id]));
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) {
+      parent.set(id, parent.get(parent.get(id)!)!);
+      id = parent.get(id)!;
+    }
+    return id;
+  };
+  const edges: { a: string, b: string, reason: DuplicateReason, similarity: number }[] = [];
+  const join = (a: string, b: string, reason: DuplicateReason, similarity: number) => {
+    edges.push({ a, b, reason, similarity });
+    parent.set(find(a), find(b));
+  };
+
+  const joinBuckets = (buckets: Map<string, string[]>, reasonFor: (ids: string[]) => DuplicateReason) => {
+    buckets.forEach(ids => {
+      for (let i = 1; i < ids.length; i++) join(ids[0], ids[i], reasonFor(ids), 1);
+    });
+  };
+
+  const byKey = new Map<string, string[]>();
+  ready.filter(hasComparableContent).forEach(m => {
+    const key = contentKey(m);
+    byKey.set(key, [...(byKey.get(key) || []), m.id]);
+  });
+  joinBuckets(byKey, ids => byId.get(ids[0])!.type === 'link' ? 'url' : 'content');
+
+  const byHash = new Map<string, string[]>();
+  (await getAllAttachments()).forEach(a => {
+    if (!a.hash || !byId.has(a.memoryId)) return;
+    byHash.set(a.hash, [...(byHash.get(a.hash) || []), a.memoryId]);
+  });
+  joinBuckets(byHash, () => 'attachment');
+
+  for (const memory of ready) {
+    if (memory.type !== 'note' || memory.embedding.length === 0 || memory.content.trim().length < MIN_SIMILAR_LENGTH) continue;
+    // Vectors from different embedding models aren't comparable
+    const similar = await queryVectorIndex(memory.embedding, {
+      k: 6,
+      minScore: NEAR_DUPLICATE_THRESHOLD,
+      filter: id => id !== memory.id && byId.get(id)?.type === 'note' && byId.get(id)?.embeddingModel === memory.embeddingModel
+    });
+    similar.forEach(({ id, score }) => {
+      if (find(id) !== find(memory.id)) join(memory.id, id, 'similar', score);
+    });
+  }
+
+  const groups = new Map<string, DuplicateGroup>();
+  for (const edge of edges) {
+    const root = find(edge.a);
+    const group = groups.get(root) || { memoryIds: [], reason: edge.reason, similarity: 1 };
+    group.memoryIds = Array.from(new Set([...group.memoryIds, edge.a, edge.b]));
+    if (group.reason === 'similar') group.reason = edge.reason;
+    group.similarity = Math.min(group.similarity, edge.similarity);
+    groups.set(root, group);
+  }
+
+  const ignored = getIgnoredGroups();
+  return Array.from(groups.values())
+    .filter(group => !ignored.has(groupKey(group.memoryIds)))
+    .map(group => ({
+      ...group,
+      memoryIds: group.memoryIds.sort((a, b) => byId.get(a)!.createdAt - byId.get(b)!.createdAt)
+    }))
+    .sort((a, b) => b.memoryIds.length - a.memoryIds.length || b.similarity - a.similarity);
+};
+
+// Connects every memory in `ids` to every other one
+export const linkMemories = async (ids: string[]): Promise<void> => {
+  for (const id of ids) {
+    await relateMemories(id, ids);
+  }
+};
+
+// Folds `sources` into `target` and moves them to the trash, so a merge can be undone by
+// restoring them. Notes with different text are appended and the result is re-analyzed;
+// the sources' connections are added to the target.
+export const mergeMemories = async (target: MemoryItem, sources: MemoryItem[]): Promise<MemoryItem> => {
+  const sourceIds = new Set(sources.map(s => s.id));
+  const removed = (id: string) => id === target.id || sourceIds.has(id);
+  const targetKey = contentKey(target);
+  const extraText = target.type !== 'note' ? [] : Array.from(new Set(
+    sources.filter(s => s.type === 'note' && contentKey(s) !== targetKey).map(s => s.content.trim())
+  ));
+  const everyone = [target, ...sources];
+
+  const merged: MemoryItem = {
+    ...target,
+    content: [target.content, ...extraText].join('\n\n'),
+    createdAt: Math.min(...everyone.map(m => m.createdAt)),
+    resurfaceCount: everyone.reduce((sum, m) => sum + (m.resurfaceCount || 0), 0),
+    aiMetadata: {
+      ...target.aiMetadata,
+      topics: uniqueIgnoringCase(everyone.flatMap(m => m.aiMetadata.topics || [])),
+      mood: uniqueIgnoringCase(everyone.flatMap(m => m.aiMetadata.mood || []))
+    },
+    status: extraText.length > 0 ? 'pending' : target.status
+  };
+  await saveMemory(merged);
+  await relateMemories(target.id, sources.flatMap(m => m.aiMetadata.relatedMemoryIds || []).filter(id => !removed(id)));
+  await trashMemories(sources.map(s => s.id));
+
+  if (extraText.length > 0) await enqueueCapture(merged.id, merged.content);
+  return merged;
+};
+
+// "Merge" at save time: nothing new is created; extra note text is appended to the existing memory
+export const mergeCapture = async (existing: MemoryItem, text: string): Promise<MemoryItem> => {
+  const extra = text.trim();
+  if (existing.type !== 'note' || !extra || contentKey({ type: 'note', content: extra }) === contentKey(existing)) {
+    return existing;
+  }
+  const merged: MemoryItem = { ...existing, content: `${existing.content}\n\n${extra}`, status: 'pending' };
+  await saveMemory(merged);
+  await enqueueCapture(merged.id, merged.content);
+  return merged;
+};
@@ -1,6 +1,8 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AIMetadata, AnalysisResponse, MemoryItem, Insight } from "../types";
-import { cosineSimilarity } from "./vector";
+import { ApiError, GoogleGenAI, Type } from "@google/genai";
+import { AIMetadata, AIProvider, AIProviderId, AnswerOptions, AnswerSource, ChatMessage, MemoryEmbedding, MemoryItem, MemoryType, Insight, Tag } from "../types";
+import { queryVectorIndex } from "./vectorIndex";
+import { localProvider } from "./localAI";
+import { rollUpTopics } from "./taxonomy";
 
 // NOTE: In a production app, never expose keys in client code if possible.
 const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
@@ -12,15 +14,21 @@ const SEARCH_MODEL = "gemini-2.5-flash"; // For Search Grounding
 const FAST_MODEL = "gemini-2.5-flash-lite"; // Low latency
 const IMAGE_MODEL = "gemini-3-pro-preview"; // Image analysis
 const THINKING_MODEL = "gemini-3-pro-preview"; // Complex tasks (PDFs)
+const ANSWER_MODEL = "gemini-2.5-flash"; // Streamed answers over saved memories
+const RECALL_MODEL = FAST_MODEL; // Review questions
 
-export const getEmbedding = async (text: string): Promise<number[]> => {
+// Gemini 3 Pro for images and PDFs; Flash Lite for notes and for formatting link context as JSON
+const geminiAnalysisModel = (inputType: MemoryType) =>
+  inputType === 'image' ? IMAGE_MODEL : inputType === 'pdf' ? THINKING_MODEL : FAST_MODEL;
+
+const geminiEmbed = async (text: string): Promise<number[]> => {
   const ai = getAI();
   try {
     const response = await ai.models.embedContent({
         model: EMBEDDING_MODEL,
         contents: text
     });
-    return response.embedding?.values || [];
+    return response.embeddings?.[0]?.values || [];
   } catch (error) {
     console.error("Embedding error:", error);
     return [];
@@ -48,10 +56,10 @@ async function getLinkContext(url: string): Promise<string> {
     }
 }
 
-export const analyzeContent = async (
+const geminiAnalyze = async (
   content: string, 
   media?: { data: string, mimeType: string },
-  inputType: 'link' | 'note' | 'image' | 'pdf' = 'note'
+  inputType: MemoryType = 'note'
 ): Promise<AIMetadata> => {
   const ai = getAI();
   
@@ -86,7 +94,7 @@ export const analyzeContent = async (
     required: ["summary", "topics", "mood"]
   };
 
-  let model = FAST_MODEL;
+  const model = geminiAnalysisModel(inputType);
   let finalConfig: any = {
     systemInstruction,
     responseMimeType: "application/json",
@@ -98,24 +106,17 @@ export const analyzeContent = async (
   // --- Model Selection & Pre-processing Logic ---
   
   if (inputType === 'link') {
-      // 1. Use Google Search to get context
-      const searchContext = await getLinkContext(content);
-      finalPrompt = `URL: ${content}\n\nContext from Web Search: ${searchContext}\n\nAnalyze this memory.`;
-      model = FAST_MODEL; // Use fast model for the final JSON formatting
-  } 
-  else if (inputType === 'image') {
-      // 2. Use Gemini 3 Pro for Images
-      model = IMAGE_MODEL;
+      // 1. Use the captured page text (on the lines after the URL); fall back to Google Search
+      const [url, ...pageLines] = content.split('\n');
+      const pageText = pageLines.join('\n').trim();
+      finalPrompt = pageText
+        ? `URL: ${url}\n\nPage content:\n${pageText}\n\nAnalyze this memory.`
+        : `URL: ${url}\n\nContext from Web Search: ${await getLinkContext(url)}\n\nAnalyze this memory.`;
   } 
   else if (inputType === 'pdf') {
-      // 3. Use Gemini 3 Pro with Thinking for Documents
-      model = THINKING_MODEL;
+      // 2. Use Thinking for Documents
       finalConfig.thinkingConfig = { thinkingBudget: 32768 };
       // Note: When using thinking, we ensure maxOutputTokens is NOT set (it is undefined by default here)
-  } 
-  else {
-      // 4. Use Flash Lite for fast text notes
-      model = FAST_MODEL;
   }
 
   // --- Construct Payload ---
@@ -163,71 +164,202 @@ export const analyzeContent = async (
     };
 
   } catch (error) {
+    // Rethrow so the capture queue can retry, or give up when retrying won't help
     console.error("Analysis Error", error);
-    return {
-      summary: "Could not analyze content.",
-      topics: ["Uncategorized"],
-      mood: [],
-      colors: ["#CCCCCC"],
-      collection: "General",
-      importance: 0.5
-    };
+    throw error;
+  }
+};
+
+// Network failures, timeouts, rate limits and server errors are worth retrying. A bad API key,
+// blocked content (no response), an unreadable response or a file the API refuses are not.
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof ApiError) return error.status === 408 || error.status === 429 || error.status >= 500;
+  if (error instanceof SyntaxError) return false;
+  return !(error instanceof Error && error.message === "No response from AI");
+};
+
+const geminiAnswer = async function* (
+  question: string,
+  sources: AnswerSource[],
+  history: ChatMessage[],
+  { strict }: AnswerOptions
+): AsyncGenerator<string> {
+  const ai = getAI();
+
+  const systemInstruction = `
+    You answer questions from the user's personal knowledge base of saved memories.
+    The memories are numbered. Cite each claim taken from a memory with its number in square brackets, e.g. [1] or [2][3].
+    ${strict
+      ? "Use ONLY the memories. If they don't contain the answer, say you couldn't find it in the saved memories. Never add facts from general knowledge."
+      : "Prefer the memories. When they aren't enough you may add general knowledge, but say clearly which parts don't come from the memories and never cite those."}
+    Answer concisely in plain text.
+  `;
+
+  const context = sources.map((source, i) => `[${i + 1}] ${source.text}`).join('\n\n');
+  const contents = [
+    ...history.map(m => ({ role: m.role === 'user' ? 'user' : 'model', parts: [{ text: m.text }] })),
+    { role: 'user', parts: [{ text: `Memories:\n${context || '(none found)'}\n\nQuestion: ${question}` }] }
+  ];
+
+  const stream = await ai.models.generateContentStream({
+    model: ANSWER_MODEL,
+    contents,
+    config: { systemInstruction }
+  });
+  for await (const chunk of stream) {
+    if (chunk.text) yield chunk.text;
+  }
+};
+
+const geminiRecallPrompt = async (summary: string, topics: string[]): Promise<string> => {
+  const ai = getAI();
+  const response = await ai.models.generateContent({
+    model: RECALL_MODEL,
+    contents: `Memory: ${summary}\nTopics: ${topics.join(', ') || 'none'}`,
+    config: {
+      systemInstruction: `
+        You write flashcard questions for a personal knowledge base.
+        Ask ONE short question that checks whether the user remembers the key idea of the memory.
+        Don't give the answer away. Reply with the question only.
+      `
+    }
+  });
+  const question = response.text?.trim();
+  if (!question) throw new Error("No response from AI");
+  return question;
+};
+
+const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  embeddingModel: EMBEDDING_MODEL,
+  analysisModel: geminiAnalysisModel,
+  embed: geminiEmbed,
+  analyze: geminiAnalyze,
+  groundLink: getLinkContext,
+  recallPrompt: geminiRecallPrompt,
+  answer: geminiAnswer
+};
+
+// --- Provider Selection ---
+
+const PROVIDER_STORAGE_KEY = 'memory.aiProvider';
+
+const providers: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  local: localProvider
+};
+
+export const listProviders = (): AIProvider[] => Object.values(providers);
+
+// Falls back to the local provider when no Gemini key is configured
+export const getProviderId = (): AIProviderId => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (stored && stored in providers) return stored as AIProviderId;
+  } catch {
+    // localStorage unavailable (private mode, workers)
+  }
+  return process.env.API_KEY ? 'gemini' : 'local';
+};
+
+export const setProviderId = (id: AIProviderId): void => {
+  try {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  } catch {
+    // Selection just won't persist
   }
 };
 
+export const getAIProvider = (): AIProvider => providers[getProviderId()];
+
+export const getEmbedding = (text: string): Promise<number[]> => getAIProvider().embed(text);
+
+export const analyzeContent = (
+  content: string,
+  media?: { data: string, mimeType: string },
+  inputType: MemoryType = 'note'
+): Promise<AIMetadata> => getAIProvider().analyze(content, media, inputType);
+
+// Model ids as stored on memories: "<provider>/<model>"
+export const currentEmbeddingModel = (provider: AIProvider = getAIProvider()) => `${provider.id}/${provider.embeddingModel}`;
+
+export const currentAnalysisModel = (inputType: MemoryType, provider: AIProvider = getAIProvider()) =>
+  `${provider.id}/${provider.analysisModel(inputType)}`;
+
+// Embeds text and records which model did it
+export const embedText = async (text: string): Promise<MemoryEmbedding> => {
+  const provider = getAIProvider();
+  const embedding = await provider.embed(text);
+  return { embedding, embeddingModel: currentEmbeddingModel(provider), embeddingDimensions: embedding.length };
+};
+
+// Embeds a saved memory together with its AI metadata, matching what the capture queue stores
+export const embedMemory = (memory: MemoryItem): Promise<MemoryEmbedding> => {
+  const { summary, topics, mood } = memory.aiMetadata;
+  return embedText(`${memory.content} ${summary} ${topics.join(' ')} ${mood.join(' ')}`);
+};
+
+const MAX_RELATED = 5; // Connections the AI makes per memory
+
 // Find related memories based on semantic similarity
 export const findRelatedMemories = async (
   memory: MemoryItem,
   allMemories: MemoryItem[],
   threshold: number = 0.65
 ): Promise<string[]> => {
-  const related: string[] = [];
+  const byId = new Map(allMemories.map(m => [m.id, m]));
   
-  for (const other of allMemories) {
-    if (other.id === memory.id) continue;
-    
-    const similarity = cosineSimilarity(memory.embedding, other.embedding);
-    
-    // Also check topic overlap
-    const topicOverlap = memory.aiMetadata.topics.filter(t => 
-      other.aiMetadata.topics.some(ot => ot.toLowerCase() === t.toLowerCase())
-    ).length;
-    
-    const topicBoost = topicOverlap > 0 ? 0.1 : 0;
-    const finalScore = similarity + topicBoost;
-    
-    if (finalScore >= threshold) {
-      related.push(other.id);
-    }
-  }
+  // Topic overlap adds at most 0.1, so anything further below the threshold can't qualify
+  // Only vectors from the same model are comparable
+  const candidates = await queryVectorIndex(memory.embedding, {
+    k: 50,
+    minScore: threshold - 0.1,
+    filter: id => id !== memory.id && byId.get(id)?.embeddingModel === memory.embeddingModel
+  });
   
-  return related.slice(0, 5); // Limit to 5 most related
+  return candidates
+    .map(({ id, score }) => {
+      const other = byId.get(id)!;
+      // Also check topic overlap
+      const topicOverlap = memory.aiMetadata.topics.filter(t => 
+        other.aiMetadata.topics.some(ot => ot.toLowerCase() === t.toLowerCase())
+      ).length;
+      
+      const topicBoost = topicOverlap > 0 ? 0.1 : 0;
+      return { id, finalScore: score + topicBoost };
+    })
+    // Links are two-way, so memories that already have their share are passed over
+    .filter(r => r.finalScore >= threshold && (byId.get(r.id)!.aiMetadata.relatedMemoryIds?.length || 0) < MAX_RELATED)
+    .sort((a, b) => b.finalScore - a.finalScore)
+    .slice(0, MAX_RELATED)
+    .map(r => r.id);
 };
 
 // Generate insights from memories
-export const generateInsights = async (memories: MemoryItem[]): Promise<Insight[]> => {
+export const generateInsights = async (memories: MemoryItem[], tags: Tag[] = []): Promise<Insight[]> => {
   if (memories.length < 3) return [];
   
-  const ai = getAI();
   const insights: Insight[] = [];
   
-  // Analyze patterns in topics
-  const topicFrequency: Record<string, number> = {};
+  // Analyze patterns in topics, ignoring case, with aliases folded in and child tags counting towards their parents
+  const topicMemories = new Map<string, { topic: string, ids: string[] }>();
   memories.forEach(m => {
-    m.aiMetadata.topics.forEach(topic => {
-      topicFrequency[topic] = (topicFrequency[topic] || 0) + 1;
+    rollUpTopics(m.aiMetadata.topics, tags).forEach(topic => {
+      const entry = topicMemories.get(topic.toLowerCase()) || { topic, ids: [] };
+      entry.ids.push(m.id);
+      topicMemories.set(topic.toLowerCase(), entry);
     });
   });
   
-  const topTopics = Object.entries(topicFrequency)
+  const topTopics = Array.from(topicMemories.values())
+    .map(({ topic, ids }) => [topic, ids.length] as [string, number])
     .sort((a, b) => b[1] - a[1])
     .slice(0, 3)
     .filter(([_, count]) => count >= 2);
   
   topTopics.forEach(([topic, count]) => {
-    const relatedMemories = memories
-      .filter(m => m.aiMetadata.topics.includes(topic))
-      .map(m => m.id);
+    const relatedMemories = topicMemories.get(topic.toLowerCase())!.ids;
     
     if (relatedMemories.length >= 2) {
       insights.push({
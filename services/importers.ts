@@ -0,0 +1,254 @@
+import { ImportedEntry } from '../types';
+
+// Parsers for notes and links exported from other tools. Each returns plain entries that
+// go through the normal capture pipeline; imported tags and folders become hints the AI keeps.
+
+const MARKDOWN_EXTENSIONS = ['md', 'markdown', 'txt'];
+const BOOKMARK_EXTENSIONS = ['html', 'htm'];
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+export const isImporterFile = (file: File) =>
+  [...MARKDOWN_EXTENSIONS, ...BOOKMARK_EXTENSIONS, 'csv', 'json'].includes(extensionOf(file.name));
+
+// Accepts unix seconds, milliseconds or any date string
+const parseTimestamp = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const numeric = typeof value === 'number' ? value : /^\d+$/.test(String(value).trim()) ? Number(value) : NaN;
+  if (!Number.isNaN(numeric)) return numeric > 0 ? (numeric < 1e12 ? numeric * 1000 : numeric) : undefined;
+  const time = Date.parse(String(value));
+  return Number.isNaN(time) ? undefined : time;
+};
+
+const cleanTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags
+    .map(t => t.trim().replace(/^["']|["']$/g, '').replace(/^#/, ''))
+    .filter(t => {
+      const key = t.toLowerCase();
+      if (!t || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+const isUrl = (value: string) => /^https?:\/\//i.test(value.trim());
+
+// --- Markdown / Obsidian ---
+
+const parseFrontMatter = (text: string): { fields: Record<string, string | string[]>, body: string } => {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { fields: {}, body: text };
+
+  const fields: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (fields[listKey] as string[]).push(item[1].trim());
+      continue;
+    }
+    const pair = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!pair) continue;
+    const [, key, rawValue] = pair;
+    const value = rawValue.trim();
+    listKey = null;
+    if (!value) {
+      fields[key.toLowerCase()] = [];
+      listKey = key.toLowerCase();
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      fields[key.toLowerCase()] = value.slice(1, -1).split(',').map(v => v.trim());
+    } else {
+      fields[key.toLowerCase()] = value.replace(/^["']|["']$/g, '');
+    }
+  }
+  return { fields, body: text.slice(match[0].length) };
+};
+
+const asList = (value: string | string[] | undefined): string[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : value.split(/[,\s]+/);
+
+export const parseMarkdownNote = (text: string, path: string, lastModified?: number): ImportedEntry | null => {
+  const { fields, body } = parseFrontMatter(text);
+  const content = body.trim();
+  if (!content) return null;
+
+  // Obsidian also allows inline #tags anywhere in the note
+  const inlineTags = Array.from(content.matchAll(/(?:^|\s)#([a-z][\w/-]*)/gi), m => m[1]);
+  const heading = content.match(/^#\s+(.+)$/m)?.[1];
+  const fileName = path.split('/').pop()!.replace(/\.[^.]+$/, '');
+  const title = (typeof fields.title === 'string' && fields.title) || heading || fileName;
+
+  return {
+    type: 'note',
+    title,
+    // Keep the title with the note when the body doesn't carry it itself
+    content: heading ? content : `# ${title}\n\n${content}`,
+    topics: cleanTags([...asList(fields.tags), ...asList(fields.tag), ...inlineTags]),
+    createdAt: parseTimestamp(fields.created) ?? parseTimestamp(fields.date) ?? lastModified
+  };
+};
+
+// --- Netscape bookmarks HTML (exported by every major browser) ---
+
+const decodeEntities = (text: string) => text
+  .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+  .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;|&apos;/g, "'")
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&amp;/g, '&');
+
+const attribute = (attributes: string, name: string) =>
+  attributes.match(new RegExp(`${name}\\s*=\\s*"([^"]*)"`, 'i'))?.[1];
+
+export const parseBookmarksHtml = (html: string): ImportedEntry[] => {
+  const entries: ImportedEntry[] = [];
+  const folders: (string | null)[] = [];
+  let pendingFolder: string | null = null;
+  const tokens = /<h3([^>]*)>([\s\S]*?)<\/h3>|<a([^>]*)>([\s\S]*?)<\/a>|<(\/?)dl\b[^>]*>/gi;
+
+  for (const match of html.matchAll(tokens)) {
+    const [, folderAttributes, folderName, linkAttributes, linkTitle, closing] = match;
+    if (folderName !== undefined) {
+      // The browser's own toolbar/unsorted roots aren't meaningful collections
+      const isRoot = /personal_toolbar_folder|unfiled_bookmarks_folder/i.test(folderAttributes);
+      pendingFolder = isRoot ? null : decodeEntities(folderName).trim() || null;
+    } else if (linkAttributes !== undefined) {
+      const href = decodeEntities(attribute(linkAttributes, 'href') || '');
+      if (!isUrl(href)) continue;
+      entries.push({
+        type: 'link',
+        title: decodeEntities(linkTitle.replace(/<[^>]+>/g, '')).trim() || href,
+        content: href,
+        topics: cleanTags((attribute(linkAttributes, 'tags') || '').split(',')),
+        collection: [...folders].reverse().find(Boolean) || undefined,
+        createdAt: parseTimestamp(attribute(linkAttributes, 'add_date'))
+      });
+    } else if (closing) {
+      folders.pop();
+    } else {
+      folders.push(pendingFolder);
+      pendingFolder = null;
+    }
+  }
+  return entries;
+};
+
+// --- Read-later exports (Pocket, Instapaper, Raindrop and similar) ---
+
+const URL_FIELDS = ['url', 'href', 'link', 'resolved_url', 'given_url'];
+const TITLE_FIELDS = ['title', 'resolved_title', 'given_title', 'name'];
+const TAG_FIELDS = ['tags', 'tag', 'labels'];
+const TIME_FIELDS = ['time_added', 'timestamp', 'created', 'created_at', 'date', 'added', 'add_date'];
+const FOLDER_FIELDS = ['folder', 'collection'];
+
+const pick = (record: Record<string, unknown>, fields: string[]) => {
+  const key = Object.keys(record).find(k => fields.includes(k.toLowerCase()) && record[k] !== '' && record[k] != null);
+  return key === undefined ? undefined : record[key];
+};
+
+// A string property of a JSON object, e.g. { tag: "..." } or { title: "..." }
+const stringField = (value: unknown, key: string): string | undefined => {
+  if (typeof value !== 'object' || value === null || !(key in value)) return undefined;
+  const field = (value as Record<string, unknown>)[key];
+  return typeof field === 'string' ? field : undefined;
+};
+
+const toTags = (value: unknown): string[] => {
+  if (!value) return [];
+  if (Array.isArray(value)) return value.map(v => typeof v === 'string' ? v : stringField(v, 'tag') ?? stringField(v, 'name') ?? '');
+  if (typeof value === 'object') return Object.keys(value as object); // Pocket API: { tagName: {...} }
+  return String(value).split(/[|,;]/);
+};
+
+const toReadLaterEntry = (record: Record<string, unknown>): ImportedEntry | null => {
+  const url = String(pick(record, URL_FIELDS) ?? '').trim();
+  if (!isUrl(url)) return null;
+  const folder = pick(record, FOLDER_FIELDS);
+  const collection = typeof folder === 'string' ? folder.trim() : stringField(folder, 'title');
+  return {
+    type: 'link',
+    title: String(pick(record, TITLE_FIELDS) ?? url),
+    content: url,
+    topics: cleanTags(toTags(pick(record, TAG_FIELDS))),
+    // Instapaper files everything under "Unread" by default
+    collection: collection && !/^(unread|archive)$/i.test(collection) ? collection : undefined,
+    createdAt: parseTimestamp(pick(record, TIME_FIELDS))
+  };
+};
+
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+export const parseReadLaterCsv = (text: string): ImportedEntry[] => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  return rows
+    .map(row => toReadLaterEntry(Object.fromEntries(header.map((name, i) => [name.trim(), row[i] ?? '']))))
+    .filter((entry): entry is ImportedEntry => entry !== null);
+};
+
+export const parseReadLaterJson = (text: string): ImportedEntry[] => {
+  const data = JSON.parse(text);
+  const records: unknown[] = Array.isArray(data)
+    ? data
+    : data.items ?? data.bookmarks ?? data.links ?? Object.values(data.list ?? {});
+  return records
+    .filter((r): r is Record<string, unknown> => !!r && typeof r === 'object')
+    .map(toReadLaterEntry)
+    .filter((entry): entry is ImportedEntry => entry !== null);
+};
+
+// Parses a supported export file into entries, picking the parser by extension
+export const parseImportFile = async (file: File, path: string): Promise<ImportedEntry[]> => {
+  const extension = extensionOf(file.name);
+  const text = await file.text();
+
+  if (MARKDOWN_EXTENSIONS.includes(extension)) {
+    const note = parseMarkdownNote(text, path, file.lastModified || undefined);
+    return note ? [note] : [];
+  }
+  if (BOOKMARK_EXTENSIONS.includes(extension)) return parseBookmarksHtml(text);
+  if (extension === 'csv') return parseReadLaterCsv(text);
+  if (extension === 'json') return parseReadLaterJson(text);
+  throw new Error(`Unsupported file type: .${extension}`);
+};
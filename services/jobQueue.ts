@@ -0,0 +1,52 @@
+// Runs async jobs with a fixed number in flight at once, retrying failures with
+// exponential backoff. Cancelling stops new jobs from starting; running ones finish.
+
+export interface JobQueueOptions {
+  concurrency?: number;
+  retries?: number; // Extra attempts after the first failure
+  retryDelay?: number; // Base delay in ms, doubled on every retry
+  signal?: AbortSignal;
+}
+
+export type JobOutcome =
+  | { status: 'fulfilled' }
+  | { status: 'rejected', error: unknown }
+  | { status: 'cancelled' };
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  if (signal?.aborted) return resolve();
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+export const runJobQueue = async <T>(
+  items: T[],
+  worker: (item: T, attempt: number) => Promise<void>,
+  { concurrency = 3, retries = 2, retryDelay = 1000, signal }: JobQueueOptions = {}
+): Promise<JobOutcome[]> => {
+  const outcomes: JobOutcome[] = items.map(() => ({ status: 'cancelled' }));
+  let next = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await worker(items[index], attempt);
+          outcomes[index] = { status: 'fulfilled' };
+          break;
+        } catch (error) {
+          outcomes[index] = { status: 'rejected', error };
+          if (attempt > retries || signal?.aborted) break;
+          await wait(retryDelay * 2 ** (attempt - 1), signal);
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runNext));
+  return outcomes;
+};
@@ -0,0 +1,95 @@
+import { LinkHealth } from '../types';
+import { getAllMemories, getMemory, saveMemory } from './db';
+import { runJobQueue } from './jobQueue';
+import { fetchViaProxy, linkUrl } from './snapshot';
+
+// Link rot monitoring: while the app is open, saved links are re-fetched through the fetch
+// proxy about once a week and the status, redirects and check time are stored on the memory.
+
+const RECHECK_AFTER = 7 * 24 * 60 * 60 * 1000;
+const CHECK_INTERVAL = 60 * 60 * 1000; // How often to look for links due a check
+const STARTUP_DELAY = 30 * 1000; // Let the app finish loading before the first sweep
+const BATCH_SIZE = 25; // Links checked per sweep
+const CONCURRENCY = 3;
+const GONE_STATUSES = [404, 410, 451]; // Dead on the first check
+const BLOCKED_STATUSES = [401, 403, 429]; // Usually the proxy being turned away, not a dead page
+const FAILURES_BEFORE_DEAD = 2; // Timeouts and server errors are often temporary
+
+let sweeping = false;
+
+// Fetches the link once; rejects only when the proxy itself can't be used
+export const checkLink = async (url: string, previous?: LinkHealth): Promise<LinkHealth> => {
+  const response = await fetchViaProxy(url);
+  response.body?.cancel().catch(() => {});
+  const checkedAt = Date.now();
+
+  const unreachable = response.headers.has('X-Proxy-Error');
+  const status = unreachable ? 0 : response.status;
+  const finalUrl = response.headers.get('X-Final-Url') || undefined;
+  const redirected = response.headers.get('X-Redirected') === '1' || (!!finalUrl && finalUrl !== url);
+
+  if (!unreachable && (response.ok || BLOCKED_STATUSES.includes(status))) {
+    return { status, finalUrl, redirected, dead: false, failures: 0, checkedAt };
+  }
+  const failures = (previous?.failures || 0) + 1;
+  return {
+    status,
+    finalUrl,
+    redirected,
+    dead: GONE_STATUSES.includes(status) || failures >= FAILURES_BEFORE_DEAD,
+    failures,
+    checkedAt,
+    error: unreachable ? "Site couldn't be reached" : `HTTP ${status}`
+  };
+};
+
+// Checks one link and stores the result on its memory
+const recordCheck = async (id: string): Promise<void> => {
+  const memory = await getMemory(id);
+  if (!memory || memory.type !== 'link') return;
+  const linkHealth = await checkLink(linkUrl(memory), memory.linkHealth);
+  // Re-read so an edit made while the check ran isn't overwritten
+  const latest = await getMemory(id);
+  if (latest) await saveMemory({ ...latest, linkHealth });
+};
+
+// Checks the links that have gone longest without a check; returns how many were recorded
+export const checkDueLinks = async (): Promise<number> => {
+  if (sweeping || !navigator.onLine) return 0;
+  sweeping = true;
+  try {
+    const now = Date.now();
+    const due = (await getAllMemories())
+      .filter(m => m.type === 'link' && m.status !== 'pending' && now - (m.linkHealth?.checkedAt || 0) > RECHECK_AFTER)
+      .sort((a, b) => (a.linkHealth?.checkedAt || 0) - (b.linkHealth?.checkedAt || 0))
+      .slice(0, BATCH_SIZE);
+    const outcomes = await runJobQueue(due, m => recordCheck(m.id), { concurrency: CONCURRENCY, retries: 0 });
+    return outcomes.filter(o => o.status === 'fulfilled').length;
+  } finally {
+    sweeping = false;
+  }
+};
+
+export const startLinkChecker = (onChange: () => void): (() => void) => {
+  const run = () => {
+    checkDueLinks()
+      .then(checked => { if (checked > 0) onChange(); })
+      .catch(console.error);
+  };
+  const startup = setTimeout(run, STARTUP_DELAY);
+  const interval = setInterval(run, CHECK_INTERVAL);
+
+  return () => {
+    clearTimeout(startup);
+    clearInterval(interval);
+  };
+};
+
+// The Wayback Machine copy closest to when the link was saved, or null if there is none
+export const findArchivedCopy = async (url: string, savedAt: number): Promise<string | null> => {
+  const timestamp = new Date(savedAt).toISOString().replace(/\D/g, '').slice(0, 14);
+  const response = await fetchViaProxy(`https://archive.org/wayback/available?url=${encodeURIComponent(url)}&timestamp=${timestamp}`);
+  if (!response.ok) throw new Error(`Archive lookup returned HTTP ${response.status}`);
+  const closest = (await response.json())?.archived_snapshots?.closest;
+  return closest?.available ? closest.url : null;
+};
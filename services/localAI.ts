@@ -0,0 +1,174 @@
+import { AIMetadata, AIProvider, AnswerSource, MemoryType } from "../types";
+import { hashString, stem, tokenize } from "./tokenizer";
+
+// Fully offline, deterministic stand-in for the Gemini backend.
+// Embeddings are hashed bag-of-words vectors and analysis is keyword heuristics,
+// so the same input always produces the same memory.
+
+export const LOCAL_EMBEDDING_DIMENSIONS = 256;
+// Bump when the hashing or heuristics change so stored memories are flagged for re-indexing
+const LOCAL_EMBEDDING_MODEL = 'hashing-256-v2';
+const LOCAL_ANALYSIS_MODEL = 'keywords-2';
+const ANSWER_SENTENCES = 4;
+
+// Keyword lexicons used to guess moods and collections
+const MOOD_LEXICON: Record<string, string[]> = {
+  Technical: ['code', 'api', 'bug', 'function', 'typescript', 'javascript', 'react', 'database', 'server', 'algorithm', 'github', 'deploy'],
+  Inspirational: ['inspire', 'inspiration', 'dream', 'goal', 'vision', 'create', 'idea', 'ideas', 'beautiful', 'amazing'],
+  Calm: ['calm', 'peace', 'quiet', 'relax', 'nature', 'ocean', 'forest', 'slow', 'gentle', 'meditation'],
+  Urgent: ['urgent', 'asap', 'deadline', 'today', 'tomorrow', 'must', 'important', 'critical'],
+  Reflective: ['think', 'thought', 'feel', 'remember', 'reflect', 'journal', 'lesson', 'learned'],
+  Joyful: ['happy', 'fun', 'love', 'joy', 'excited', 'celebrate', 'party', 'great']
+};
+
+const COLLECTION_LEXICON: Record<string, string[]> = {
+  'Work Projects': ['meeting', 'project', 'client', 'deadline', 'team', 'roadmap', 'sprint', 'work'],
+  'Travel Ideas': ['travel', 'trip', 'flight', 'hotel', 'beach', 'city', 'visit', 'vacation'],
+  'Design Inspiration': ['design', 'color', 'typography', 'layout', 'ui', 'ux', 'palette', 'font'],
+  'Learning Notes': ['learn', 'course', 'tutorial', 'study', 'book', 'paper', 'research', 'notes'],
+  'Recipes': ['recipe', 'cook', 'bake', 'ingredient', 'dinner', 'lunch', 'food']
+};
+
+const COLOR_NAMES: Record<string, string> = {
+  red: '#FF0000', orange: '#FFA500', yellow: '#FFFF00', green: '#008000', blue: '#0000FF',
+  purple: '#800080', pink: '#FFC0CB', black: '#000000', white: '#FFFFFF', gray: '#808080', brown: '#A52A2A'
+};
+
+export const localEmbed = (text: string): number[] => {
+  const vector = new Array(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+  const tokens = tokenize(text);
+  if (tokens.length === 0) return [];
+
+  const addFeature = (feature: string, weight: number) => {
+    const hash = hashString(feature);
+    // Use the top bit as a sign so collisions cancel out rather than pile up
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % LOCAL_EMBEDDING_DIMENSIONS] += sign * weight;
+  };
+
+  tokens.forEach((token, i) => {
+    addFeature(token, 1);
+    if (i > 0) addFeature(`${tokens[i - 1]}_${token}`, 0.5);
+  });
+
+  const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return magnitude === 0 ? [] : vector.map(v => v / magnitude);
+};
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+const summarize = (text: string): string => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean) return "No summary available.";
+  const sentences = clean.match(/[^.!?]+[.!?]*/g) || [clean];
+  const summary = sentences.slice(0, 2).join(' ').trim();
+  return summary.length > 200 ? `${summary.slice(0, 197)}...` : summary;
+};
+
+const scoreLexicon = (tokens: string[], lexicon: Record<string, string[]>): string[] =>
+  Object.entries(lexicon)
+    .map(([label, words]) => [label, tokens.filter(t => words.includes(t)).length] as const)
+    .filter(([, hits]) => hits > 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([label]) => label);
+
+const describeUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    const pathWords = decodeURIComponent(parsed.pathname).split(/[\/\-_.]+/).filter(Boolean);
+    return [parsed.hostname.replace('www.', ''), ...pathWords].join(' ');
+  } catch {
+    return url;
+  }
+};
+
+export const localAnalyze = (content: string, inputType: MemoryType = 'note'): AIMetadata => {
+  // Links may carry their captured page text on the lines after the URL
+  const [url, ...pageLines] = content.split('\n');
+  const pageText = inputType === 'link' ? pageLines.join('\n').trim() : '';
+  const text = inputType === 'link' ? `${describeUrl(url)} ${pageText}` : content;
+  const tokens = tokenize(text);
+
+  const frequency = new Map<string, number>();
+  tokens.forEach(t => {
+    if (!t.startsWith('#') && !/^\d+$/.test(t)) frequency.set(t, (frequency.get(t) || 0) + 1);
+  });
+  const keywords = Array.from(frequency.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, 4)
+    .map(([word]) => capitalize(word));
+
+  const colorNames = tokens.filter(t => COLOR_NAMES[t]);
+  const hexColors = (content.match(/#[0-9a-f]{6}\b/gi) || []).map(c => c.toUpperCase());
+  const colors = Array.from(new Set([...hexColors, ...colorNames.map(c => COLOR_NAMES[c])]));
+
+  const typeTopic = inputType === 'pdf' ? 'Document' : inputType === 'image' ? 'Visual' : inputType === 'link' ? 'Web' : null;
+  const topics = Array.from(new Set([
+    ...keywords,
+    ...colorNames.map(capitalize),
+    ...(typeTopic ? [typeTopic] : [])
+  ]));
+
+  const moods = scoreLexicon(tokens, MOOD_LEXICON).slice(0, 2);
+  const collections = scoreLexicon(tokens, COLLECTION_LEXICON);
+  const fallbackCollection = inputType === 'link' ? 'Reading List' : inputType === 'pdf' ? 'Documents' : 'General';
+
+  let importance = 0.5;
+  if (moods.includes('Urgent')) importance += 0.3;
+  if (inputType === 'pdf') importance += 0.1;
+  if (tokens.length < 4) importance -= 0.1;
+
+  return {
+    summary: inputType !== 'link' ? summarize(content) : pageText ? summarize(pageText) : `Saved link from ${describeUrl(url).split(' ')[0]}.`,
+    topics: topics.length > 0 ? topics : ["Uncategorized"],
+    mood: moods.length > 0 ? moods : ["Neutral"],
+    colors: colors.length > 0 ? colors : ["#CCCCCC"],
+    collection: collections[0] || fallbackCollection,
+    importance: Math.max(0, Math.min(1, importance))
+  };
+};
+
+// Extractive answer: the source sentences that share the most terms with the question.
+// There is no general knowledge to fall back on, so every answer is strict.
+export const localAnswer = (question: string, sources: AnswerSource[]): string => {
+  const questionTerms = new Set(tokenize(question).map(stem));
+  const seen = new Set<string>();
+  const picked = sources
+    .flatMap((source, i) => (source.text.match(/[^.!?\n]+[.!?]*/g) || []).map(sentence => ({
+      sentence: sentence.trim(),
+      n: i + 1,
+      hits: new Set(tokenize(sentence).map(stem).filter(t => questionTerms.has(t))).size
+    })))
+    .filter(s => s.hits > 0 && !seen.has(s.sentence) && seen.add(s.sentence))
+    .sort((a, b) => b.hits - a.hits || a.n - b.n)
+    .slice(0, ANSWER_SENTENCES);
+
+  if (picked.length === 0) return "I couldn't find an answer in your saved memories.";
+  return `Here's what your memories say:\n\n${picked.map(s => `- ${s.sentence} [${s.n}]`).join('\n')}`;
+};
+
+// Cloze question: the summary with its most specific tag blanked out
+export const localRecallPrompt = (summary: string, topics: string[]): string => {
+  const escape = (word: string) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const blanked = [...topics]
+    .sort((a, b) => b.length - a.length)
+    .map(topic => new RegExp(`\\b${escape(topic)}\\b`, 'gi'))
+    .find(pattern => pattern.test(summary));
+  if (blanked) return `Fill in the blank: ${summary.replace(blanked, '_____')}`;
+  const topic = topics.find(t => t !== 'Uncategorized');
+  return topic ? `What do you remember about ${topic}?` : "What was this memory about?";
+};
+
+export const localProvider: AIProvider = {
+  id: 'local',
+  label: 'Local (offline)',
+  embeddingModel: LOCAL_EMBEDDING_MODEL,
+  analysisModel: () => LOCAL_ANALYSIS_MODEL,
+  embed: async (text) => localEmbed(text),
+  analyze: async (content, _media, inputType = 'note') => localAnalyze(content, inputType),
+  groundLink: async (url) => describeUrl(url),
+  recallPrompt: async (summary, topics) => localRecallPrompt(summary, topics),
+  answer: async function* (question, sources) {
+    yield localAnswer(question, sources);
+  }
+};
@@ -0,0 +1,257 @@
+import { Attachment, MemoryItem, MigrationProgress, PdfChunk } from '../types';
+
+export const STORE_NAME = 'memories';
+export const COLLECTIONS_STORE = 'collections';
+export const ATTACHMENTS_STORE = 'attachments';
+export const VECTORS_STORE = 'vectors';
+export const VECTOR_META_STORE = 'vectorMeta';
+export const TEXT_INDEX_STORE = 'textIndex';
+export const CAPTURE_QUEUE_STORE = 'captureQueue';
+export const PDF_CHUNKS_STORE = 'pdfChunks';
+export const SNAPSHOTS_STORE = 'snapshots';
+export const REVISIONS_STORE = 'revisions';
+export const TAGS_STORE = 'tags';
+export const REVIEW_LOG_STORE = 'reviewLog';
+
+// Embedders in use before embeddings recorded their model, told apart by dimension
+const LEGACY_EMBEDDING_MODELS: Record<number, string> = {
+  768: 'gemini/text-embedding-004',
+  256: 'local/hashing-256'
+};
+
+export const legacyEmbeddingModel = (dimensions: number): string | undefined => LEGACY_EMBEDDING_MODELS[dimensions];
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Runs inside the versionchange transaction; throwing aborts the whole upgrade
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => Promise<void> | void;
+}
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Walks every record in a store, writing back whatever `update` returns
+export const updateEach = <T>(
+  store: IDBObjectStore,
+  update: (record: T) => T | undefined
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      try {
+        const updated = update(cursor.value as T);
+        if (updated) cursor.update(updated);
+        cursor.continue();
+      } catch (error) {
+        reject(error);
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+// Ordered list of schema changes and data backfills. Never edit or reorder a
+// shipped migration: append a new one with the next version instead.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create memories store',
+    migrate: (db) => {
+      const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('createdAt', 'createdAt', { unique: false });
+    }
+  },
+  {
+    version: 2,
+    description: 'Create collections store',
+    migrate: (db, transaction) => {
+      // Early v1 databases were created without the createdAt index
+      const memories = transaction.objectStore(STORE_NAME);
+      if (!memories.indexNames.contains('createdAt')) {
+        memories.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+      const collectionsStore = db.createObjectStore(COLLECTIONS_STORE, { keyPath: 'id' });
+      collectionsStore.createIndex('createdAt', 'createdAt', { unique: false });
+    }
+  },
+  {
+    version: 3,
+    description: 'Normalize memory metadata',
+    migrate: (_db, transaction) =>
+      updateEach<MemoryItem>(transaction.objectStore(STORE_NAME), (memory) => {
+        const meta = memory.aiMetadata || ({} as MemoryItem['aiMetadata']);
+        const collection = (meta.collection || '').replace(/\s+/g, ' ').trim();
+        return {
+          ...memory,
+          aiMetadata: {
+            ...meta,
+            summary: meta.summary || '',
+            topics: Array.isArray(meta.topics) ? meta.topics : [],
+            mood: Array.isArray(meta.mood) ? meta.mood : [],
+            colors: Array.isArray(meta.colors) ? meta.colors : [],
+            collection: collection || 'General'
+          },
+          embedding: Array.isArray(memory.embedding) ? memory.embedding : []
+        };
+      })
+  },
+  {
+    version: 4,
+    description: 'Move images and PDFs into the attachment store',
+    migrate: (db, transaction) => {
+      const attachments = db.createObjectStore(ATTACHMENTS_STORE, { keyPath: 'id' });
+      attachments.createIndex('memoryId', 'memoryId', { unique: false });
+
+      // Thumbnails need a canvas, which can't run inside this transaction, so they are generated on first view
+      return updateEach<MemoryItem & { imageData?: string }>(transaction.objectStore(STORE_NAME), (memory) => {
+        const { imageData, ...rest } = memory;
+        if (!imageData) return undefined;
+        const match = imageData.match(/^data:(.*?);base64,(.*)$/);
+        if (!match) return rest;
+
+        const binary = atob(match[2]);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+        const mimeType = match[1] || 'application/octet-stream';
+        const attachment: Attachment = {
+          id: crypto.randomUUID(),
+          memoryId: memory.id,
+          mimeType,
+          size: bytes.length,
+          blob: new Blob([bytes], { type: mimeType }),
+          createdAt: memory.createdAt
+        };
+        attachments.put(attachment);
+        return { ...rest, attachmentId: attachment.id };
+      });
+    }
+  },
+  {
+    version: 5,
+    description: 'Create vector index stores',
+    // Vectors are backfilled by syncVectorIndex on the next load
+    migrate: (db) => {
+      db.createObjectStore(VECTORS_STORE, { keyPath: 'id' });
+      db.createObjectStore(VECTOR_META_STORE, { keyPath: 'id' });
+    }
+  },
+  {
+    version: 6,
+    description: 'Create full-text index store',
+    // Documents are backfilled by syncTextIndex on the next load
+    migrate: (db) => {
+      db.createObjectStore(TEXT_INDEX_STORE, { keyPath: 'id' });
+    }
+  },
+  {
+    version: 7,
+    description: 'Create capture queue store',
+    migrate: (db) => {
+      db.createObjectStore(CAPTURE_QUEUE_STORE, { keyPath: 'id' });
+    }
+  },
+  {
+    version: 8,
+    description: 'Index attachments by content hash',
+    // Hashing needs crypto.subtle, which can't run inside this transaction, so existing
+    // attachments are hashed by backfillAttachmentHashes after the app loads
+    migrate: (_db, transaction) => {
+      transaction.objectStore(ATTACHMENTS_STORE).createIndex('hash', 'hash', { unique: false });
+    }
+  },
+  {
+    version: 9,
+    description: 'Create PDF page chunk store',
+    // Existing PDFs are extracted and chunked by syncPdfIndex on the next load
+    migrate: (db) => {
+      const store = db.createObjectStore(PDF_CHUNKS_STORE, { keyPath: 'id' });
+      store.createIndex('memoryId', 'memoryId', { unique: false });
+    }
+  },
+  {
+    version: 10,
+    description: 'Create link snapshot store',
+    migrate: (db) => {
+      db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'memoryId' });
+    }
+  },
+  {
+    version: 11,
+    description: 'Create revision history store',
+    // Existing memories start their history at their next change
+    migrate: (db) => {
+      const store = db.createObjectStore(REVISIONS_STORE, { keyPath: 'id' });
+      store.createIndex('memoryTime', ['memoryId', 'createdAt'], { unique: false });
+    }
+  },
+  {
+    version: 12,
+    description: 'Create tag taxonomy store',
+    migrate: (db) => {
+      db.createObjectStore(TAGS_STORE, { keyPath: 'id' });
+    }
+  },
+  {
+    version: 13,
+    description: 'Record which model produced each embedding',
+    // Analysis models weren't recorded before, so analysisModel stays unknown
+    migrate: (_db, transaction) => Promise.all([
+      updateEach<MemoryItem>(transaction.objectStore(STORE_NAME), (memory) => {
+        const embeddingModel = legacyEmbeddingModel(memory.embedding.length);
+        return embeddingModel ? { ...memory, embeddingModel, embeddingDimensions: memory.embedding.length } : undefined;
+      }),
+      updateEach<PdfChunk>(transaction.objectStore(PDF_CHUNKS_STORE), (chunk) => {
+        const embeddingModel = legacyEmbeddingModel(chunk.embedding.length);
+        return embeddingModel ? { ...chunk, embeddingModel } : undefined;
+      })
+    ]).then(() => undefined)
+  },
+  {
+    version: 14,
+    description: 'Create review log store',
+    // Schedules live on the memories; existing memories start as unreviewed
+    migrate: (db) => {
+      const store = db.createObjectStore(REVIEW_LOG_STORE, { keyPath: 'id' });
+      store.createIndex('reviewedAt', 'reviewedAt', { unique: false });
+    }
+  }
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const runMigrations = async (
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  onProgress: (progress: MigrationProgress) => void
+): Promise<void> => {
+  const pending = MIGRATIONS.filter(m => m.version > oldVersion);
+
+  for (let i = 0; i < pending.length; i++) {
+    const migration = pending[i];
+    const progress = {
+      version: migration.version,
+      description: migration.description,
+      index: i + 1,
+      total: pending.length
+    };
+    onProgress({ ...progress, status: 'running' });
+    try {
+      await migration.migrate(db, transaction);
+    } catch (error) {
+      onProgress({ ...progress, status: 'failed', error: String(error) });
+      // Aborting the versionchange transaction rolls back every migration in this run
+      transaction.abort();
+      throw error;
+    }
+    onProgress({ ...progress, status: 'done' });
+  }
+};
@@ -0,0 +1,171 @@
+import { MemoryItem, PassageMatch, PdfChunk } from '../types';
+import { getAttachment, getMemory, getPdfChunks, onMemoryChange, saveMemory, writePdfChunks } from './db';
+import { currentEmbeddingModel, embedText } from './gemini';
+import { chunkPages, extractPdfPages } from './pdfText';
+import { analyzeText } from './textIndex';
+import { stem } from './tokenizer';
+import { dotProduct, normalizeVector } from './vector';
+
+// Page-level index for PDFs: extracted text is split into chunks that keep their page
+// number and embedding, so a search can point at the page a passage came from.
+// Chunks are persisted; their term sets are rebuilt in memory on load.
+
+const TERM_WEIGHT = 0.5; // Bonus for a chunk containing every query term
+const SNIPPET_LENGTH = 240;
+const WORD_PATTERN = /[\p{L}\p{N}#]+/gu;
+
+export interface PassageQueryOptions {
+  minSimilarity?: number;
+  filter?: (id: string) => boolean;
+  model?: string; // Model of the query embedding; chunks from other models match by keyword only
+}
+
+interface LoadedChunk extends PdfChunk {
+  terms: Set<string>;
+}
+
+const chunksByMemory = new Map<string, LoadedChunk[]>();
+let loading: Promise<void> | null = null;
+
+const withTerms = (chunk: PdfChunk): LoadedChunk => ({ ...chunk, terms: new Set(analyzeText(chunk.text)) });
+
+const setChunks = (memoryId: string, chunks: LoadedChunk[]) => {
+  if (chunks.length > 0) chunksByMemory.set(memoryId, chunks);
+  else chunksByMemory.delete(memoryId);
+};
+
+export const loadPdfIndex = (): Promise<void> => {
+  if (!loading) {
+    loading = getPdfChunks().then(chunks => {
+      chunks.forEach(chunk => {
+        chunksByMemory.set(chunk.memoryId, [...(chunksByMemory.get(chunk.memoryId) || []), withTerms(chunk)]);
+      });
+    });
+  }
+  return loading;
+};
+
+// Chunks and embeds the extracted pages of a PDF, replacing any earlier chunks
+export const indexPdfPages = async (memoryId: string, pages: string[]): Promise<void> => {
+  await loadPdfIndex();
+  const chunks: PdfChunk[] = [];
+  const pieces = chunkPages(pages);
+  for (let i = 0; i < pieces.length; i++) {
+    // An empty embedding still leaves the chunk searchable by keyword
+    const { embedding, embeddingModel } = await embedText(pieces[i].text);
+    chunks.push({ id: `${memoryId}:${i}`, memoryId, ...pieces[i], embedding: normalizeVector(embedding), embeddingModel });
+  }
+  await writePdfChunks(memoryId, chunks);
+  setChunks(memoryId, chunks.map(withTerms));
+};
+
+// Embeds the stored chunks of a PDF again with the current model; resolves false if any failed
+export const reembedPdfChunks = async (memoryId: string): Promise<boolean> => {
+  await loadPdfIndex();
+  const model = currentEmbeddingModel();
+  const chunks = chunksByMemory.get(memoryId) || [];
+  if (chunks.every(chunk => chunk.embeddingModel === model && chunk.embedding.length > 0)) return true;
+
+  let complete = true;
+  const updated: PdfChunk[] = [];
+  for (const { terms, ...chunk } of chunks) {
+    if (chunk.embeddingModel === model && chunk.embedding.length > 0) {
+      updated.push(chunk);
+      continue;
+    }
+    const { embedding, embeddingModel } = await embedText(chunk.text);
+    if (embedding.length === 0) complete = false;
+    updated.push(embedding.length > 0 ? { ...chunk, embedding: normalizeVector(embedding), embeddingModel } : chunk);
+  }
+  await writePdfChunks(memoryId, updated);
+  setChunks(memoryId, updated.map(withTerms));
+  return complete;
+};
+
+export const removePdfChunks = async (memoryId: string): Promise<void> => {
+  await loadPdfIndex();
+  if (!chunksByMemory.has(memoryId)) return;
+  chunksByMemory.delete(memoryId);
+  await writePdfChunks(memoryId);
+};
+
+// Indexes PDFs saved before page search existed, one at a time
+export const syncPdfIndex = async (memories: MemoryItem[]): Promise<number> => {
+  let indexed = 0;
+  for (const memory of memories) {
+    if (memory.type !== 'pdf' || !memory.attachmentId || memory.status === 'pending' || memory.pageCount !== undefined) continue;
+    const attachment = await getAttachment(memory.attachmentId);
+    if (!attachment) continue;
+    try {
+      const pages = await extractPdfPages(attachment.blob);
+      await indexPdfPages(memory.id, pages);
+      // Re-read so edits made while indexing aren't overwritten; memories trashed meanwhile are
+      // skipped and picked up after a restore, purged ones lose their passages again
+      const current = await getMemory(memory.id);
+      if (!current) await removePdfChunks(memory.id);
+      if (!current || current.deletedAt) continue;
+      await saveMemory({ ...current, pageCount: pages.length });
+      indexed++;
+    } catch (error) {
+      // Left without a page count so the next load tries again
+      console.error(`PDF indexing failed for ${memory.id}:`, error);
+    }
+  }
+  return indexed;
+};
+
+// Cuts a window of the chunk around its first query term
+const snippetAround = (text: string, terms: Set<string>): string => {
+  let hit = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (terms.has(stem(match[0].toLowerCase()))) {
+      hit = match.index!;
+      break;
+    }
+  }
+  const lead = SNIPPET_LENGTH / 3;
+  const start = hit > lead ? text.indexOf(' ', hit - lead) + 1 : 0;
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) end = Math.max(text.lastIndexOf(' ', end), hit + 1);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+// Best matching passage of each PDF. A chunk qualifies when it is semantically close to
+// the query or contains every query term; the latter also earns a ranking bonus.
+export const queryPdfIndex = async (
+  queryEmbedding: number[],
+  queryTerms: Set<string>,
+  { minSimilarity = 0, filter, model }: PassageQueryOptions = {}
+): Promise<{ id: string, passage: PassageMatch }[]> => {
+  await loadPdfIndex();
+  const query = normalizeVector(queryEmbedding);
+  const terms = Array.from(queryTerms);
+  const results: { id: string, passage: PassageMatch }[] = [];
+
+  chunksByMemory.forEach((chunks, memoryId) => {
+    if (filter && !filter(memoryId)) return;
+    let best: { chunk: LoadedChunk, score: number } | null = null;
+    for (const chunk of chunks) {
+      const comparable = model ? chunk.embeddingModel === model : chunk.embedding.length === query.length;
+      const similarity = query.length > 0 && comparable ? dotProduct(query, chunk.embedding) : 0;
+      const hasAllTerms = terms.length > 0 && terms.every(t => chunk.terms.has(t));
+      if (similarity < minSimilarity && !hasAllTerms) continue;
+      const score = similarity + (hasAllTerms ? TERM_WEIGHT : 0);
+      if (!best || score > best.score) best = { chunk, score };
+    }
+    if (best) {
+      results.push({
+        id: memoryId,
+        passage: { page: best.chunk.page, text: snippetAround(best.chunk.text, queryTerms), score: best.score }
+      });
+    }
+  });
+
+  return results.sort((a, b) => b.passage.score - a.passage.score);
+};
+
+// Chunks belong to their memory; drop them when it is deleted
+onMemoryChange((change) => {
+  if (change.type !== 'delete') return;
+  removePdfChunks(change.id).catch(error => console.error("PDF index update failed:", error));
+});
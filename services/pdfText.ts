@@ -0,0 +1,71 @@
+// Local PDF text extraction with pdf.js. The library and its worker are loaded on first use
+// so the main bundle stays small for people who never save a PDF.
+
+const CHUNK_SIZE = 1200; // Characters per chunk, roughly a few paragraphs
+const MAX_CHUNKS = 200; // Each chunk costs one embedding call
+
+let loading: Promise<typeof import('pdfjs-dist')> | null = null;
+
+const loadPdfjs = () => {
+  if (!loading) {
+    loading = Promise.all([
+      import('pdfjs-dist'),
+      import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+    ]).then(([pdfjs, worker]) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+      return pdfjs;
+    });
+    // Allow another attempt if the chunk couldn't be fetched (e.g. offline before it was cached)
+    loading.catch(() => { loading = null; });
+  }
+  return loading;
+};
+
+// Text of every page, in order; scanned pages without a text layer come back empty
+export const extractPdfPages = async (blob: Blob): Promise<string[]> => {
+  const pdfjs = await loadPdfjs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await blob.arrayBuffer()) }).promise;
+  try {
+    const pages: string[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => 'str' in item ? `${item.str}${item.hasEOL ? '\n' : ' '}` : '')
+        .join('')
+        .replace(/(\w)-\n(\w)/g, '$1$2') // Rejoin words hyphenated across lines
+        .replace(/\s+/g, ' ')
+        .trim();
+      pages.push(text);
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// Splits pages into sentence-aligned chunks that never cross a page boundary
+export const chunkPages = (pages: string[]): { page: number, text: string }[] => {
+  const chunks: { page: number, text: string }[] = [];
+
+  pages.forEach((pageText, i) => {
+    const page = i + 1;
+    let current = '';
+    for (const sentence of pageText.split(/(?<=[.!?])\s+/)) {
+      if (current && current.length + sentence.length + 1 > CHUNK_SIZE) {
+        chunks.push({ page, text: current });
+        current = '';
+      }
+      current = current ? `${current} ${sentence}` : sentence;
+      // A single run-on "sentence" (tables, reference lists) is cut at the size limit
+      while (current.length > CHUNK_SIZE) {
+        chunks.push({ page, text: current.slice(0, CHUNK_SIZE) });
+        current = current.slice(CHUNK_SIZE);
+      }
+    }
+    if (current.trim()) chunks.push({ page, text: current.trim() });
+  });
+
+  return chunks.slice(0, MAX_CHUNKS);
+};
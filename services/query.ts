@@ -0,0 +1,136 @@
+import { MemoryItem, ParsedQuery, QueryClause, QueryField, Taxonomy } from '../types';
+import { collectionKeys, topicKeys } from './taxonomy';
+
+// Parses search box input such as:
+//   type:pdf topic:design OR topic:ux -mood:urgent before:2026-01-01 collection:"Travel Ideas" "exact phrase" calm ideas
+// Structured clauses narrow the candidate set; leftover words are ranked semantically.
+// With a taxonomy, topic: and collection: also match aliases and nested tags and collections.
+
+const FIELDS: QueryField[] = ['type', 'topic', 'mood', 'color', 'collection', 'before', 'after'];
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  tag: 'topic',
+  tags: 'topic',
+  topics: 'topic',
+  is: 'type',
+  in: 'collection'
+};
+
+const COLOR_MATCH_DISTANCE = 80; // Max RGB distance for a color:#hex filter to match
+
+const TOKEN_PATTERN = /(-)?(?:([a-zA-Z]+):)?(?:"([^"]*)"?|(\S+))/g;
+
+const resolveField = (name: string | undefined): QueryField | null => {
+  if (!name) return null;
+  const lower = name.toLowerCase();
+  if ((FIELDS as string[]).includes(lower)) return lower as QueryField;
+  return FIELD_ALIASES[lower] || null;
+};
+
+export const parseSearchQuery = (input: string): ParsedQuery => {
+  const groups: QueryClause[][] = [];
+  const words: string[] = [];
+  let joinWithPrevious = false;
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, minus, fieldName, quoted, bare] = match;
+    const negated = !!minus;
+    const field = resolveField(fieldName);
+
+    if (!fieldName && quoted === undefined && bare === 'OR') {
+      joinWithPrevious = groups.length > 0;
+      continue;
+    }
+
+    let clause: QueryClause | null = null;
+    if (field) {
+      clause = { field, value: (quoted ?? bare ?? '').trim(), negated };
+    } else if (fieldName) {
+      // Not a known field (e.g. "https://..."), keep the whole token as text
+      words.push(raw.replace(/^-/, ''));
+    } else if (quoted !== undefined) {
+      clause = { field: 'phrase', value: quoted.trim(), negated };
+      if (!negated) words.push(quoted);
+    } else if (negated) {
+      clause = { field: 'word', value: bare, negated };
+    } else if (bare) {
+      words.push(bare);
+    }
+
+    if (clause && clause.value) {
+      if (joinWithPrevious) groups[groups.length - 1].push(clause);
+      else groups.push([clause]);
+    }
+    joinWithPrevious = false;
+  }
+
+  return { text: words.join(' ').trim(), groups };
+};
+
+const parseHex = (hex: string): [number, number, number] | null => {
+  const match = hex.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const full = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+const colorMatches = (memory: MemoryItem, value: string): boolean => {
+  const target = parseHex(value);
+  if (!target) {
+    // Color names are also written into topics by the analyzer
+    const lower = value.toLowerCase();
+    return memory.aiMetadata.topics.some(t => t.toLowerCase().includes(lower));
+  }
+  return memory.aiMetadata.colors.some(c => {
+    const rgb = parseHex(c);
+    if (!rgb) return false;
+    const distance = Math.sqrt(rgb.reduce((sum, v, i) => sum + (v - target[i]) ** 2, 0));
+    return distance <= COLOR_MATCH_DISTANCE;
+  });
+};
+
+const parseDate = (value: string): number | null => {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+const searchableText = (memory: MemoryItem) => [
+  memory.content,
+  memory.aiMetadata.summary,
+  ...(memory.aiMetadata.topics || []),
+  ...(memory.aiMetadata.mood || [])
+].join(' ').toLowerCase();
+
+const clauseMatches = (memory: MemoryItem, clause: QueryClause, taxonomy: Taxonomy): boolean => {
+  const value = clause.value.toLowerCase();
+  switch (clause.field) {
+    case 'type':
+      return memory.type === value;
+    case 'topic': {
+      const keys = topicKeys(clause.value, taxonomy.tags);
+      return memory.aiMetadata.topics.some(t => keys.has(t.toLowerCase()));
+    }
+    case 'mood':
+      return memory.aiMetadata.mood.some(m => m.toLowerCase() === value);
+    case 'collection':
+      return collectionKeys(clause.value, taxonomy.collections).has((memory.aiMetadata.collection || 'General').toLowerCase());
+    case 'color':
+      return colorMatches(memory, clause.value);
+    case 'before': {
+      const time = parseDate(clause.value);
+      return time === null || memory.createdAt < time;
+    }
+    case 'after': {
+      const time = parseDate(clause.value);
+      return time === null || memory.createdAt >= time;
+    }
+    case 'phrase':
+    case 'word':
+      return searchableText(memory).includes(value);
+  }
+};
+
+export const matchesQuery = (memory: MemoryItem, query: ParsedQuery, taxonomy: Taxonomy = { tags: [], collections: [] }): boolean =>
+  query.groups.every(group =>
+    group.some(clause => clauseMatches(memory, clause, taxonomy) !== clause.negated)
+  );
@@ -0,0 +1,109 @@
+// Pulls the readable part of a web page (title, byline, main text, lead image) out of its
+// HTML, dropping navigation, ads and other page chrome.
+
+const CHROME_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button',
+  'nav', 'header', 'footer', 'aside',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[aria-hidden="true"]', '[hidden]',
+  '.ad', '.ads', '.advert', '.advertisement', '.share', '.social', '.comments', '#comments', '.newsletter', '.related'
+].join(', ');
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, blockquote, pre, figcaption';
+const MIN_PARAGRAPH_LENGTH = 25; // Shorter <p>s are usually captions, bylines or buttons
+const MIN_ARTICLE_LENGTH = 500; // An <article>/<main> with less text is likely a teaser
+export const MAX_TEXT_LENGTH = 100_000;
+
+export interface ReadablePage {
+  title: string;
+  author?: string;
+  siteName?: string;
+  publishedAt?: string;
+  text: string;
+  heroImageUrl?: string;
+}
+
+const clean = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+const firstMeta = (doc: Document, ...selectors: string[]): string | undefined => {
+  for (const selector of selectors) {
+    const value = clean(doc.querySelector(selector)?.getAttribute('content'));
+    if (value) return value;
+  }
+  return undefined;
+};
+
+const absoluteUrl = (value: string | null | undefined, baseUrl: string): string | undefined => {
+  if (!value) return undefined;
+  try {
+    const url = new URL(value, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// The element holding the most paragraph text, preferring a semantic container
+const findContentRoot = (doc: Document): Element => {
+  const semantic = doc.querySelector('article, main, [role="main"]');
+  if (semantic && clean(semantic.textContent).length >= MIN_ARTICLE_LENGTH) return semantic;
+
+  // Paragraph text counts fully for its parent and half for its grandparent
+  const scores = new Map<Element, number>();
+  doc.querySelectorAll('p').forEach(p => {
+    const length = clean(p.textContent).length;
+    if (length < MIN_PARAGRAPH_LENGTH) return;
+    const parent = p.parentElement;
+    if (!parent) return;
+    scores.set(parent, (scores.get(parent) || 0) + length);
+    if (parent.parentElement) scores.set(parent.parentElement, (scores.get(parent.parentElement) || 0) + length / 2);
+  });
+
+  let best: Element = doc.body;
+  let bestScore = 0;
+  scores.forEach((score, element) => {
+    if (score > bestScore) {
+      best = element;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const blockText = (element: Element): string => {
+  const text = clean(element.textContent);
+  if (/^H[1-6]$/.test(element.tagName)) return `## ${text}`;
+  if (element.tagName === 'LI' || element.parentElement?.tagName === 'LI') return `- ${text}`;
+  return text;
+};
+
+export const extractReadable = (html: string, baseUrl: string): ReadablePage => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  const title = firstMeta(doc, 'meta[property="og:title"]', 'meta[name="twitter:title"]')
+    || clean(doc.title)
+    || clean(doc.querySelector('h1')?.textContent)
+    || baseUrl;
+  const author = firstMeta(doc, 'meta[name="author"]', 'meta[property="article:author"]')
+    || clean(doc.querySelector('[rel="author"], [itemprop="author"]')?.textContent)
+    || undefined;
+  const siteName = firstMeta(doc, 'meta[property="og:site_name"]', 'meta[name="application-name"]');
+  const publishedAt = firstMeta(doc, 'meta[property="article:published_time"]', 'meta[name="date"]')
+    || doc.querySelector('time[datetime]')?.getAttribute('datetime')
+    || undefined;
+  const metaImage = firstMeta(doc, 'meta[property="og:image"]', 'meta[name="twitter:image"]');
+
+  doc.querySelectorAll(CHROME_SELECTOR).forEach(element => element.remove());
+  const root = findContentRoot(doc);
+
+  // Leaf blocks only, so a <li> wrapping a <p> isn't repeated
+  const blocks = Array.from(root.querySelectorAll(BLOCK_SELECTOR))
+    .filter(element => !element.querySelector(BLOCK_SELECTOR))
+    .map(blockText)
+    .filter(text => text.replace(/^(## |- )/, '').length > 0);
+  const text = (blocks.length > 0 ? blocks.join('\n\n') : clean(root.textContent)).slice(0, MAX_TEXT_LENGTH);
+
+  const heroImageUrl = absoluteUrl(metaImage, baseUrl)
+    || absoluteUrl(root.querySelector('img[src]')?.getAttribute('src'), baseUrl);
+
+  return { title, author, siteName, publishedAt, text, heroImageUrl };
+};
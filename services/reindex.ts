@@ -0,0 +1,216 @@
+import { MemoryItem, ReindexJob, ReindexMode, StaleCounts } from '../types';
+import { getAllMemories, getMemory, saveMemory } from './db';
+import { currentAnalysisModel, currentEmbeddingModel, embedMemory } from './gemini';
+import { canReachProvider, processCaptureJob, reanalyzeMemories } from './captureQueue';
+import { reembedPdfChunks } from './pdfIndex';
+
+// Brings memories up to date after the embedding or analysis model changes. Memories are
+// refreshed one at a time in the background; the job is kept in localStorage so a reload
+// resumes it, and what is left to do is worked out again from each memory's model stamps.
+
+const JOB_STORAGE_KEY = 'memory.reindexJob';
+const DISMISSED_STORAGE_KEY = 'memory.reanalysisDismissed';
+const RELOAD_INTERVAL = 25; // Memories refreshed between reloads of the grid
+
+let job: ReindexJob | null = null;
+let loaded = false;
+let running = false;
+let rerunRequested = false;
+let progressListener: ((job: ReindexJob | null) => void) | null = null;
+let changeListener: (() => void) | null = null;
+
+const readJob = (): ReindexJob | null => {
+  try {
+    return JSON.parse(localStorage.getItem(JOB_STORAGE_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+const currentJob = (): ReindexJob | null => {
+  if (!loaded) {
+    job = readJob();
+    loaded = true;
+  }
+  return job;
+};
+
+// Persists and reports the job after every change
+const publish = () => {
+  try {
+    if (job) localStorage.setItem(JOB_STORAGE_KEY, JSON.stringify(job));
+    else localStorage.removeItem(JOB_STORAGE_KEY);
+  } catch {
+    // The job just won't survive a reload
+  }
+  progressListener?.(job && { ...job, failed: [...job.failed] });
+};
+
+const isIndexable = (memory: MemoryItem) => memory.status !== 'pending' && !memory.deletedAt;
+
+export const needsReembedding = (memory: MemoryItem, model: string = currentEmbeddingModel()) =>
+  isIndexable(memory) && (memory.embedding.length === 0 || memory.embeddingModel !== model);
+
+export const needsReanalysis = (memory: MemoryItem) =>
+  isIndexable(memory) && memory.analysisModel !== currentAnalysisModel(memory.type);
+
+export const countStale = (memories: MemoryItem[]): StaleCounts => {
+  const model = currentEmbeddingModel();
+  return {
+    embeddings: memories.filter(m => needsReembedding(m, model)).length,
+    analysis: memories.filter(needsReanalysis).length
+  };
+};
+
+// The models in use, so a dismissed re-analysis suggestion comes back when they change
+const analysisModelsKey = () => (['note', 'link', 'image', 'pdf'] as const).map(type => currentAnalysisModel(type)).join(',');
+
+export const isReanalysisDismissed = (): boolean => {
+  try {
+    return localStorage.getItem(DISMISSED_STORAGE_KEY) === analysisModelsKey();
+  } catch {
+    return false;
+  }
+};
+
+export const dismissReanalysis = (): void => {
+  try {
+    localStorage.setItem(DISMISSED_STORAGE_KEY, analysisModelsKey());
+  } catch {
+    // Suggestion just comes back next time
+  }
+};
+
+// Re-analysis embeds the memory too, so it also picks up memories with stale embeddings
+const isStale = (memory: MemoryItem, mode: ReindexMode) =>
+  needsReembedding(memory) || (mode === 'analyze' && needsReanalysis(memory));
+
+// Resolves false when the memory couldn't be refreshed
+const reembed = async (memory: MemoryItem): Promise<boolean> => {
+  // PDF pages first, so a memory only counts as done once its passages are searchable too
+  if (memory.type === 'pdf' && !(await reembedPdfChunks(memory.id))) return false;
+  const embedded = await embedMemory(memory);
+  if (embedded.embedding.length === 0) return false;
+  // Re-read so edits made while embedding aren't overwritten
+  const current = await getMemory(memory.id);
+  if (current) await saveMemory({ ...current, ...embedded }, 'ai');
+  return true;
+};
+
+// Goes through the capture queue, which keeps retrying a memory it couldn't analyze yet
+const reanalyze = async (memory: MemoryItem): Promise<boolean> => {
+  await reanalyzeMemories([memory.id], false);
+  return processCaptureJob(memory.id);
+};
+
+const runJob = async () => {
+  const active = currentJob();
+  if (!active || active.paused) return;
+
+  const remaining = (await getAllMemories())
+    .filter(m => isStale(m, active.mode) && !active.failed.includes(m.id))
+    .map(m => m.id);
+  // A resumed job counts what is left on top of what it already did
+  active.total = active.done + active.failed.length + remaining.length;
+  publish();
+
+  for (const [i, id] of remaining.entries()) {
+    if (job !== active) return; // Cancelled or replaced
+    if (!canReachProvider()) {
+      active.paused = true;
+      publish();
+      changeListener?.();
+      return;
+    }
+
+    const memory = await getMemory(id);
+    try {
+      const refreshed = !memory || !isStale(memory, active.mode)
+        || await (active.mode === 'embed' ? reembed(memory) : reanalyze(memory));
+      if (refreshed) active.done++;
+      else if (!canReachProvider()) {
+        // The provider dropped out midway; the capture queue finishes this memory once it is back
+        active.paused = true;
+        publish();
+        changeListener?.();
+        return;
+      } else active.failed.push(id);
+    } catch (error) {
+      console.error(`Re-indexing failed for ${id}:`, error);
+      active.failed.push(id);
+    }
+    if (job !== active) return;
+    publish();
+    if ((i + 1) % RELOAD_INTERVAL === 0) changeListener?.();
+  }
+
+  // Memories that failed stay stale and are offered again
+  if (job === active) {
+    job = null;
+    publish();
+  }
+  changeListener?.();
+};
+
+const run = async (): Promise<void> => {
+  if (running) {
+    rerunRequested = true;
+    return;
+  }
+  running = true;
+  try {
+    do {
+      rerunRequested = false;
+      await runJob();
+    } while (rerunRequested);
+  } catch (error) {
+    console.error("Re-indexing stopped:", error);
+  } finally {
+    running = false;
+  }
+};
+
+// Starts over, replacing any job in progress
+export const startReindex = (mode: ReindexMode): void => {
+  currentJob();
+  job = { mode, total: 0, done: 0, failed: [], paused: false, startedAt: Date.now() };
+  publish();
+  run();
+};
+
+export const resumeReindex = (): void => {
+  const active = currentJob();
+  if (!active) return;
+  if (active.paused) {
+    active.paused = false;
+    publish();
+  }
+  run();
+};
+
+export const cancelReindex = (): void => {
+  currentJob();
+  job = null;
+  publish();
+};
+
+// Resumes a saved job and keeps it going when connectivity returns. `onProgress` gets every
+// update; `onChange` fires whenever a batch of memories has been refreshed.
+export const startReindexer = (
+  onProgress: (job: ReindexJob | null) => void,
+  onChange: () => void
+): (() => void) => {
+  progressListener = onProgress;
+  changeListener = onChange;
+  currentJob();
+  publish();
+
+  window.addEventListener('online', resumeReindex);
+  resumeReindex();
+
+  return () => {
+    progressListener = null;
+    changeListener = null;
+    window.removeEventListener('online', resumeReindex);
+  };
+};
@@ -0,0 +1,193 @@
+import { MemoryItem, ReviewGrade, ReviewLogEntry, ReviewSchedule, ReviewStats } from '../types';
+import { getMemory, recordReview, saveMemory } from './db';
+import { getAIProvider } from './gemini';
+import { localRecallPrompt } from './localAI';
+
+// Spaced repetition over saved memories, scheduled SM-2 style: each grade moves the memory's
+// ease and sets the days until it comes back. Memories are due by calendar day, and a few
+// unreviewed ones join each day's queue, picked by the old resurfacing score.
+
+export const REVIEW_TUNING = {
+  newPerDay: 10, // Unreviewed memories introduced per day
+  startingEase: 2.5,
+  minEase: 1.3,
+  easeChange: { forgot: -0.2, hard: -0.15, good: 0, easy: 0.15 } as Record<ReviewGrade, number>,
+  hardFactor: 1.2, // Interval growth on "hard", instead of the ease
+  easyBonus: 1.3, // Extra growth on "easy"
+  maxInterval: 365, // Days
+  retentionWindow: 30 // Days of reviews counted for retention
+};
+
+export const REVIEW_GRADES: ReviewGrade[] = ['forgot', 'hard', 'good', 'easy'];
+
+const ONE_WEEK = 7 * 24 * 60 * 60 * 1000;
+const ONE_MONTH = 30 * 24 * 60 * 60 * 1000;
+
+export const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Calendar days rather than 24h steps, so daylight saving doesn't shift due dates
+const addDays = (time: number, days: number): number => {
+  const date = new Date(startOfDay(time));
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+export const isReviewable = (memory: MemoryItem) =>
+  memory.status !== 'pending' && !memory.deletedAt && !memory.review?.suspended;
+
+export const isDue = (memory: MemoryItem, now: number = Date.now()) =>
+  isReviewable(memory) && !!memory.review && memory.review.due < addDays(now, 1);
+
+// The next schedule after grading; `previous` is missing on a memory's first review
+export const scheduleReview = (previous: ReviewSchedule | undefined, grade: ReviewGrade, now: number): ReviewSchedule => {
+  const ease = Math.max(REVIEW_TUNING.minEase, (previous?.ease ?? REVIEW_TUNING.startingEase) + REVIEW_TUNING.easeChange[grade]);
+  const reps = previous?.reps ?? 0;
+  const last = previous?.interval ?? 0;
+
+  let interval: number;
+  if (grade === 'forgot') interval = 1;
+  else if (reps === 0) interval = grade === 'easy' ? 4 : 1;
+  else if (reps === 1) interval = grade === 'hard' ? 3 : grade === 'good' ? 6 : 8;
+  else if (grade === 'hard') interval = last * REVIEW_TUNING.hardFactor;
+  else interval = last * ease * (grade === 'easy' ? REVIEW_TUNING.easyBonus : 1);
+  // Remembering always pushes the next review further out than the last gap
+  if (grade !== 'forgot' && reps > 0) interval = Math.max(interval, last + 1);
+  interval = Math.min(REVIEW_TUNING.maxInterval, Math.round(interval));
+
+  return {
+    ...previous,
+    due: addDays(now, interval),
+    interval,
+    ease,
+    reps: grade === 'forgot' ? 0 : reps + 1,
+    lapses: (previous?.lapses ?? 0) + (grade === 'forgot' ? 1 : 0),
+    lastReviewedAt: now,
+    suspended: false
+  };
+};
+
+// The resurfacing heuristic: important memories that haven't been seen recently come first
+export const resurfaceScore = (memory: MemoryItem, now: number): number => {
+  const age = now - (memory.lastResurfaced || memory.createdAt);
+  let score = memory.aiMetadata.importance || 0.5;
+  if (age > ONE_WEEK && age < ONE_MONTH) {
+    score += 0.3; // Sweet spot for resurfacing
+  } else if (age > ONE_MONTH) {
+    score += 0.2; // Old but still relevant
+  }
+  return score - (memory.resurfaceCount || 0) * 0.1; // Prefer less frequently shown
+};
+
+const introducedToday = (log: ReviewLogEntry[], now: number) =>
+  log.filter(entry => entry.isNew && entry.reviewedAt >= startOfDay(now)).length;
+
+// Today's reviews: due memories, most overdue first, then today's share of new ones
+export const buildReviewQueue = (memories: MemoryItem[], log: ReviewLogEntry[], now: number = Date.now()): MemoryItem[] => {
+  const due = memories
+    .filter(m => isDue(m, now))
+    .sort((a, b) => a.review!.due - b.review!.due);
+  const fresh = memories
+    .filter(m => isReviewable(m) && !m.review)
+    .map(memory => ({ memory, score: resurfaceScore(memory, now) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(0, REVIEW_TUNING.newPerDay - introducedToday(log, now)))
+    .map(c => c.memory);
+  return [...due, ...fresh];
+};
+
+export const computeReviewStats = (memories: MemoryItem[], log: ReviewLogEntry[], now: number = Date.now()): ReviewStats => {
+  const today = startOfDay(now);
+  const days = new Set(log.map(entry => startOfDay(entry.reviewedAt)));
+
+  let currentStreak = 0;
+  // A streak still counts until the end of the day after its last review
+  for (let day = days.has(today) ? today : addDays(today, -1); days.has(day); day = addDays(day, -1)) currentStreak++;
+
+  let longestStreak = 0;
+  let run = 0;
+  let previous: number | undefined;
+  Array.from(days).sort((a, b) => a - b).forEach(day => {
+    run = previous !== undefined && addDays(previous, 1) === day ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+    previous = day;
+  });
+
+  const recent = log.filter(entry => entry.reviewedAt >= addDays(today, -REVIEW_TUNING.retentionWindow));
+  const unreviewed = memories.filter(m => isReviewable(m) && !m.review).length;
+
+  return {
+    due: memories.filter(m => isDue(m, now)).length,
+    newAvailable: Math.min(unreviewed, Math.max(0, REVIEW_TUNING.newPerDay - introducedToday(log, now))),
+    reviewedToday: log.filter(entry => entry.reviewedAt >= today).length,
+    currentStreak,
+    longestStreak,
+    retention: recent.length > 0 ? recent.filter(entry => entry.grade !== 'forgot').length / recent.length : undefined
+  };
+};
+
+// A question to answer from memory before the summary is shown. Falls back to a fill-in-the-blank
+// built locally when the AI provider can't be reached.
+export const getRecallPrompt = async (memory: MemoryItem): Promise<string> => {
+  const { summary, topics } = memory.aiMetadata;
+  if (memory.review?.prompt && memory.review.promptSummary === summary) return memory.review.prompt;
+  try {
+    return await getAIProvider().recallPrompt(summary, topics);
+  } catch (error) {
+    console.warn("Recall prompt failed:", error);
+    return localRecallPrompt(summary, topics);
+  }
+};
+
+// Schedules the memory's next review from `grade` and logs it; the prompt is kept for next time
+export const gradeMemory = async (
+  memory: MemoryItem,
+  grade: ReviewGrade,
+  prompt?: string,
+  now: number = Date.now()
+): Promise<{ memory?: MemoryItem, entry: ReviewLogEntry }> => {
+  const schedule: ReviewSchedule = {
+    ...scheduleReview(memory.review, grade, now),
+    prompt,
+    promptSummary: prompt ? memory.aiMetadata.summary : undefined
+  };
+  const entry: ReviewLogEntry = {
+    id: crypto.randomUUID(),
+    memoryId: memory.id,
+    grade,
+    reviewedAt: now,
+    interval: schedule.interval,
+    isNew: !memory.review?.lastReviewedAt
+  };
+  return { memory: await recordReview(memory.id, schedule, entry), entry };
+};
+
+// Leaves a memory out of reviews, or brings it back with its schedule as it was
+export const withReviewSuspended = (memory: MemoryItem, suspended: boolean): MemoryItem => {
+  const review: ReviewSchedule = memory.review || {
+    due: Date.now(),
+    interval: 0,
+    ease: REVIEW_TUNING.startingEase,
+    reps: 0,
+    lapses: 0
+  };
+  // A memory that was never reviewed goes back among the new ones
+  return { ...memory, review: suspended || review.lastReviewedAt ? { ...review, suspended } : undefined };
+};
+
+export const setReviewSuspended = async (id: string, suspended: boolean): Promise<void> => {
+  const memory = await getMemory(id);
+  if (!memory || !!memory.review?.suspended === suspended) return;
+  await saveMemory(withReviewSuspended(memory, suspended));
+};
+
+// "6d", "3w", "4mo", "1y"
+export const formatInterval = (days: number): string => {
+  if (days < 14) return `${days}d`;
+  if (days < 60) return `${Math.round(days / 7)}w`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round(days / 365)}y`;
+};
@@ -0,0 +1,146 @@
+import { MemoryItem, Revision, RevisionAction, RevisionAuthor, RevisionChange, RevisionField } from '../types';
+
+// Every write to a memory's content or metadata is recorded as a revision: which fields
+// changed, from what to what, and whether the user or the AI made the change. db.ts diffs
+// the stored record against the new one inside the save transaction.
+
+type FieldValue = string | string[];
+
+// Summary of a memory that hasn't been analyzed yet (see captureQueue.ts)
+export const PENDING_SUMMARY = "Waiting to be analyzed...";
+
+const FIELDS: Record<RevisionField, {
+  get: (memory: MemoryItem) => FieldValue;
+  set: (memory: MemoryItem, value: FieldValue) => MemoryItem;
+}> = {
+  content: {
+    get: m => m.content,
+    set: (m, value) => ({ ...m, content: value as string })
+  },
+  summary: {
+    get: m => m.aiMetadata.summary,
+    set: (m, value) => ({ ...m, aiMetadata: { ...m.aiMetadata, summary: value as string } })
+  },
+  topics: {
+    get: m => m.aiMetadata.topics || [],
+    set: (m, value) => ({ ...m, aiMetadata: { ...m.aiMetadata, topics: value as string[] } })
+  },
+  mood: {
+    get: m => m.aiMetadata.mood || [],
+    set: (m, value) => ({ ...m, aiMetadata: { ...m.aiMetadata, mood: value as string[] } })
+  },
+  colors: {
+    get: m => m.aiMetadata.colors || [],
+    set: (m, value) => ({ ...m, aiMetadata: { ...m.aiMetadata, colors: value as string[] } })
+  },
+  collection: {
+    get: m => m.aiMetadata.collection || '',
+    set: (m, value) => ({ ...m, aiMetadata: { ...m.aiMetadata, collection: (value as string) || undefined } })
+  }
+};
+
+const FIELD_NAMES = Object.keys(FIELDS) as RevisionField[];
+
+const sameValue = (a: FieldValue, b: FieldValue) =>
+  Array.isArray(a) && Array.isArray(b)
+    ? a.length === b.length && a.every((v, i) => v === b[i])
+    : a === b;
+
+const diffMemories = (before: MemoryItem | undefined, after: MemoryItem): RevisionChange[] =>
+  FIELD_NAMES.flatMap(field => {
+    const from = before ? FIELDS[field].get(before) : undefined;
+    const to = FIELDS[field].get(after);
+    if (from !== undefined && sameValue(from, to)) return [];
+    return [{ field, before: from, after: to }];
+  });
+
+// The revision for replacing `previous` with `next`, or null if nothing tracked changed
+export const createRevision = (
+  previous: MemoryItem | undefined,
+  next: MemoryItem,
+  author: RevisionAuthor,
+  revertOf?: string
+): Revision | null => {
+  const changes = diffMemories(previous, next);
+  const trashed = !!next.deletedAt && !previous?.deletedAt;
+  const restored = !!previous?.deletedAt && !next.deletedAt;
+  if (changes.length === 0 && !trashed && !restored) return null;
+
+  let action: RevisionAction;
+  if (!previous) action = 'create';
+  else if (trashed) action = 'delete';
+  else if (restored) action = 'restore';
+  else if (revertOf) action = 'revert';
+  else action = author === 'ai' ? 'analyze' : 'edit';
+
+  return {
+    id: crypto.randomUUID(),
+    memoryId: next.id,
+    author,
+    action,
+    changes,
+    // Undoing the first analysis would bring back the placeholder; re-analysis can be undone
+    revertible: !!previous && !trashed && !restored && previous.aiMetadata.summary !== PENDING_SUMMARY,
+    revertOf,
+    createdAt: Date.now()
+  };
+};
+
+// Sets each changed field back to its `before` value. Scalar fields are replaced; for lists
+// only what the change added or removed is undone, so other changes to the list survive.
+const undoChanges = (memory: MemoryItem, changes: RevisionChange[]): MemoryItem =>
+  changes.reduce((reverted, change) => {
+    const field = FIELDS[change.field];
+    if (change.before === undefined) return reverted;
+    if (!Array.isArray(change.before)) return field.set(reverted, change.before);
+
+    const before = change.before;
+    const after = change.after as string[];
+    const added = new Set(after.filter(v => !before.includes(v)));
+    const current = (field.get(reverted) as string[]).filter(v => !added.has(v));
+    const restored = before.filter(v => !after.includes(v) && !current.includes(v));
+    return field.set(reverted, [...current, ...restored]);
+  }, memory);
+
+// Undoes a revision's changes on the current memory
+export const revertRevision = (memory: MemoryItem, revision: Revision): MemoryItem =>
+  undoChanges(memory, revision.changes);
+
+// Replays the edits that turned `base` into `edited` on `current`, the memory as stored now,
+// so whatever was written since `base` was read (e.g. by analysis finishing) is kept
+export const applyEdits = (current: MemoryItem, base: MemoryItem, edited: MemoryItem): MemoryItem => {
+  // Untracked fields such as the review schedule are copied when the edit replaced them
+  const replaced = (Object.keys(edited) as (keyof MemoryItem)[])
+    .filter(key => key !== 'aiMetadata' && !FIELD_NAMES.includes(key as RevisionField) && edited[key] !== base[key]);
+  const updated = { ...current, ...Object.fromEntries(replaced.map(key => [key, edited[key]])) };
+  // Applying an edit is undoing its reverse
+  return undoChanges(updated, diffMemories(base, edited).map(change => ({ ...change, before: change.after, after: change.before })));
+};
+
+const LABELS: Record<RevisionField, string> = {
+  content: 'content',
+  summary: 'summary',
+  topics: 'tags',
+  mood: 'mood',
+  colors: 'palette',
+  collection: 'collection'
+};
+
+// One line per change, e.g. "Removed tag: travel" or "Moved to Recipes"
+export const describeChange = (change: RevisionChange): string[] => {
+  const { field, before, after } = change;
+  if (Array.isArray(before) || Array.isArray(after)) {
+    const from = (before || []) as string[];
+    const to = (after || []) as string[];
+    const added = to.filter(v => !from.includes(v));
+    const removed = from.filter(v => !to.includes(v));
+    if (field === 'colors') return added.length || removed.length ? ['Changed palette'] : [];
+    const noun = field === 'topics' ? 'tag' : 'mood';
+    return [
+      ...(added.length > 0 ? [`Added ${noun}${added.length > 1 ? 's' : ''}: ${added.join(', ')}`] : []),
+      ...(removed.length > 0 ? [`Removed ${noun}${removed.length > 1 ? 's' : ''}: ${removed.join(', ')}`] : [])
+    ];
+  }
+  if (field === 'collection') return [after ? `Moved to ${after}` : `Removed from ${before}`];
+  return [`${before === undefined ? 'Set' : 'Changed'} ${LABELS[field]}`];
+};
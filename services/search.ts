@@ -0,0 +1,127 @@
+import { MatchSpan, MemoryItem, ScoreBreakdown, SearchResult } from '../types';
+import { embedText } from './gemini';
+import { queryPdfIndex } from './pdfIndex';
+import { analyzeText, queryTextIndex } from './textIndex';
+import { stem } from './tokenizer';
+import { queryVectorIndex } from './vectorIndex';
+
+// Hybrid search: four ranked lists (semantic, BM25 keyword, exact tag, PDF passage) merged
+// with reciprocal rank fusion, so no list's raw score scale dominates the others.
+
+export const SEARCH_TUNING = {
+  candidates: 100, // Max hits pulled from each index per search
+  rrfK: 60,
+  semanticThreshold: 0.40, // Min similarity (plus recency boost) to enter the semantic list
+  recencyWeight: 0.15, // Up to 0.15 boost for new items
+  recencyWindow: 60 * 24 * 60 * 60 * 1000 // Decay over 60 days
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}#]+/gu;
+
+const recencyBoost = (memory: MemoryItem, now: number) =>
+  Math.max(0, 1 - (now - memory.createdAt) / SEARCH_TUNING.recencyWindow) * SEARCH_TUNING.recencyWeight;
+
+export const isSearchResult = (item: MemoryItem): item is SearchResult => 'breakdown' in item;
+
+// Drops the search-only fields so a hit can be edited and saved as a plain memory
+export const toMemoryItem = (item: MemoryItem): MemoryItem => {
+  if (!isSearchResult(item)) return item;
+  const { score, breakdown, spans, matchedTerms, passage, ...memory } = item;
+  return memory;
+};
+
+// Character ranges in `text` whose words stem to one of `terms`
+export const findMatchSpans = (text: string, terms: Set<string>, field: MatchSpan['field']): MatchSpan[] => {
+  const spans: MatchSpan[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (terms.has(stem(match[0].toLowerCase()))) {
+      spans.push({ field, start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  return spans;
+};
+
+export const searchMemories = async (query: string, candidates: MemoryItem[]): Promise<SearchResult[]> => {
+  const byId = new Map<string, MemoryItem>(candidates.map(m => [m.id, m]));
+  const filter = (id: string) => byId.has(id);
+  const lowerQ = query.toLowerCase().trim();
+  const queryTerms = new Set(analyzeText(query));
+  const now = Date.now();
+
+  const [{ embedding: queryEmbedding, embeddingModel: model }, textMatches] = await Promise.all([
+    embedText(query),
+    queryTextIndex(query, { k: SEARCH_TUNING.candidates, filter })
+  ]);
+  // Memories embedded by another model are left to the keyword lists until they are re-indexed
+  const [vectorMatches, passageMatches] = await Promise.all([
+    queryVectorIndex(queryEmbedding, { k: SEARCH_TUNING.candidates, filter: id => byId.get(id)?.embeddingModel === model }),
+    queryPdfIndex(queryEmbedding, queryTerms, { minSimilarity: SEARCH_TUNING.semanticThreshold, filter, model })
+  ]);
+
+  const breakdowns = new Map<string, ScoreBreakdown>();
+  const breakdownFor = (id: string) => {
+    if (!breakdowns.has(id)) {
+      breakdowns.set(id, {
+        semantic: 0,
+        recency: 0,
+        keyword: 0,
+        exactTag: false,
+        passage: 0,
+        contributions: { semantic: 0, keyword: 0, exactTag: 0, passage: 0 }
+      });
+    }
+    return breakdowns.get(id)!;
+  };
+
+  const semanticList = vectorMatches
+    .map(({ id, score }) => ({ id, similarity: score, recency: recencyBoost(byId.get(id)!, now) }))
+    .filter(r => r.similarity + r.recency > SEARCH_TUNING.semanticThreshold)
+    .sort((a, b) => (b.similarity + b.recency) - (a.similarity + a.recency))
+    .map(r => {
+      const breakdown = breakdownFor(r.id);
+      breakdown.semantic = r.similarity;
+      breakdown.recency = r.recency;
+      return r.id;
+    });
+
+  const keywordList = textMatches.map(m => {
+    breakdownFor(m.id).keyword = m.score;
+    return m.id;
+  });
+
+  const exactTagList = candidates
+    .filter(m => [...(m.aiMetadata.topics || []), ...(m.aiMetadata.mood || [])].some(t => t.toLowerCase() === lowerQ))
+    .map(m => {
+      breakdownFor(m.id).exactTag = true;
+      return m.id;
+    });
+
+  const passageList = passageMatches.slice(0, SEARCH_TUNING.candidates).map(m => {
+    breakdownFor(m.id).passage = m.passage.score;
+    return m.id;
+  });
+
+  // Scale so that ranking first in every list scores 1
+  const lists = { semantic: semanticList, keyword: keywordList, exactTag: exactTagList, passage: passageList };
+  const maxScore = Object.keys(lists).length / (SEARCH_TUNING.rrfK + 1);
+  (Object.keys(lists) as (keyof typeof lists)[]).forEach(name => {
+    lists[name].forEach((id, rank) => {
+      breakdownFor(id).contributions[name] = 1 / (SEARCH_TUNING.rrfK + rank + 1) / maxScore;
+    });
+  });
+
+  return Array.from(breakdowns.entries())
+    .map(([id, breakdown]) => {
+      const memory = byId.get(id)!;
+      const { semantic, keyword, exactTag, passage: passageShare } = breakdown.contributions;
+      const passage = passageMatches.find(m => m.id === id)?.passage;
+      const spans = [
+        ...findMatchSpans(memory.content, queryTerms, 'content'),
+        ...findMatchSpans(memory.aiMetadata.summary, queryTerms, 'summary'),
+        ...(passage ? findMatchSpans(passage.text, queryTerms, 'passage') : [])
+      ];
+      const matchedTerms = textMatches.find(m => m.id === id)?.terms || [];
+      return { ...memory, score: semantic + keyword + exactTag + passageShare, breakdown, spans, matchedTerms, passage };
+    })
+    .sort((a, b) => b.score - a.score);
+};
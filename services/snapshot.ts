@@ -0,0 +1,90 @@
+import { LinkSnapshot, MemoryItem } from '../types';
+import { saveSnapshot } from './db';
+import { extractReadable, MAX_TEXT_LENGTH } from './readability';
+
+// Saves a readable copy of each link's page so the memory outlives the page itself.
+// Browsers can't read cross-origin pages directly, so pages are fetched through a proxy:
+// a URL template where {url} is replaced by the encoded page URL. The default points at the
+// stand-in proxy the Vite dev and preview servers provide.
+
+export const DEFAULT_FETCH_PROXY = '/api/fetch?url={url}';
+const PROXY_STORAGE_KEY = 'memory.fetchProxy';
+const FETCH_TIMEOUT = 20 * 1000; // Longer than the stand-in proxy's own timeout, so it can report
+const MAX_HERO_IMAGE_SIZE = 2 * 1024 * 1024;
+
+export const getFetchProxy = (): string => {
+  try {
+    return localStorage.getItem(PROXY_STORAGE_KEY) || DEFAULT_FETCH_PROXY;
+  } catch {
+    return DEFAULT_FETCH_PROXY;
+  }
+};
+
+// An empty template restores the default
+export const setFetchProxy = (template: string) => {
+  if (template.trim()) localStorage.setItem(PROXY_STORAGE_KEY, template.trim());
+  else localStorage.removeItem(PROXY_STORAGE_KEY);
+};
+
+export const proxiedUrl = (url: string): string => {
+  const template = getFetchProxy();
+  return template.includes('{url}')
+    ? template.replace('{url}', encodeURIComponent(url))
+    : `${template}${encodeURIComponent(url)}`;
+};
+
+// The URL of a link memory (anything typed after it is a note)
+export const linkUrl = (memory: Pick<MemoryItem, 'content'>): string => memory.content.trim().split(/\s+/)[0];
+
+// Fetches a URL through the proxy; rejects when the proxy can't be used, not on HTTP errors
+export const fetchViaProxy = async (url: string): Promise<Response> => {
+  const response = await fetch(proxiedUrl(url), { signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+  // Static hosts without the stand-in answer /api/fetch with the app itself
+  if (getFetchProxy() === DEFAULT_FETCH_PROXY && !response.headers.has('X-Final-Url') && !response.headers.has('X-Proxy-Error')) {
+    throw new Error('No fetch proxy is available here; set one with the globe button');
+  }
+  return response;
+};
+
+const fetchHeroImage = async (url: string): Promise<Blob | undefined> => {
+  const response = await fetchViaProxy(url);
+  if (!response.ok) return undefined;
+  const blob = await response.blob();
+  return blob.type.startsWith('image/') && blob.size <= MAX_HERO_IMAGE_SIZE ? blob : undefined;
+};
+
+// Fetches the page, extracts its readable text and stores it as the memory's snapshot
+export const captureSnapshot = async (memoryId: string, url: string): Promise<LinkSnapshot> => {
+  const response = await fetchViaProxy(url);
+  if (!response.ok) throw new Error(`Page returned HTTP ${response.status}`);
+
+  // The stand-in proxy reports where redirects ended up
+  const finalUrl = response.headers.get('X-Final-Url') || url;
+  const contentType = response.headers.get('Content-Type') || '';
+  const body = await response.text();
+
+  let page;
+  if (contentType.includes('html')) {
+    page = extractReadable(body, finalUrl);
+  } else if (contentType.startsWith('text/plain')) {
+    page = { title: url, text: body.trim().slice(0, MAX_TEXT_LENGTH) };
+  } else {
+    throw new Error(`Can't read ${contentType || 'unknown content'} as a page`);
+  }
+  if (!page.text) throw new Error('No readable text on the page');
+
+  const snapshot: LinkSnapshot = { memoryId, url, finalUrl, ...page, fetchedAt: Date.now() };
+  if (snapshot.heroImageUrl) {
+    // A missing hero image shouldn't cost us the text
+    snapshot.heroImage = await fetchHeroImage(snapshot.heroImageUrl).catch(() => undefined);
+  }
+  await saveSnapshot(snapshot);
+  return snapshot;
+};
+
+// Header block plus text, as given to the analyzer and embedder
+export const snapshotToText = (snapshot: LinkSnapshot): string => [
+  snapshot.title,
+  snapshot.author ? `By ${snapshot.author}` : '',
+  snapshot.text
+].filter(Boolean).join('\n');
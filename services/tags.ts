@@ -0,0 +1,84 @@
+import { LabelField, LabelUsage, MemoryItem } from '../types';
+import { getMemory, saveMemory, updateMemories } from './db';
+import { embedMemory } from './gemini';
+
+// Bulk edits to the topics or moods of every memory carrying them. Each edit runs in a single
+// transaction and records a revision per memory; labels are matched ignoring case.
+
+const key = (label: string) => label.trim().toLowerCase();
+
+export const labelsOf = (memory: MemoryItem, field: LabelField): string[] => memory.aiMetadata[field] || [];
+
+// Every label in use with how many memories carry it, most used first
+export const countLabels = (memories: MemoryItem[], field: LabelField): LabelUsage[] => {
+  const usage = new Map<string, { count: number, spellings: Map<string, number> }>();
+  memories.forEach(memory => {
+    const counted = new Set<string>();
+    labelsOf(memory, field).forEach(label => {
+      const entry = usage.get(key(label)) || { count: 0, spellings: new Map<string, number>() };
+      if (!counted.has(key(label))) entry.count++;
+      counted.add(key(label));
+      entry.spellings.set(label, (entry.spellings.get(label) || 0) + 1);
+      usage.set(key(label), entry);
+    });
+  });
+  return Array.from(usage.values())
+    .map(({ count, spellings }) => {
+      const ranked = Array.from(spellings.entries()).sort((a, b) => b[1] - a[1]).map(([spelling]) => spelling);
+      return { label: ranked[0], spellings: ranked, count };
+    })
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
+
+// Replaces any of `from` with `to` on every memory carrying one, keeping its other labels in order
+export const replaceLabels = async (field: LabelField, from: string[], to: string[]): Promise<MemoryItem[]> => {
+  const removed = new Set(from.map(key));
+  const added = to.map(label => label.trim()).filter(Boolean);
+  return updateMemories(memory => {
+    const labels = labelsOf(memory, field);
+    // The replacements take the place of the first label replaced
+    const at = labels.findIndex(label => removed.has(key(label)));
+    if (at === -1) return undefined;
+    const kept = labels.filter(label => !removed.has(key(label)));
+    const seen = new Set<string>();
+    const next = [...kept.slice(0, at), ...added, ...kept.slice(at)].filter(label => {
+      if (seen.has(key(label))) return false;
+      seen.add(key(label));
+      return true;
+    });
+    return { ...memory, aiMetadata: { ...memory.aiMetadata, [field]: next } };
+  });
+};
+
+export const renameLabel = (field: LabelField, label: string, name: string) => replaceLabels(field, [label], [name]);
+
+export const mergeLabels = (field: LabelField, labels: string[], into: string) => replaceLabels(field, labels, [into]);
+
+export const splitLabel = (field: LabelField, label: string, parts: string[]) => replaceLabels(field, [label], parts);
+
+export const deleteLabel = (field: LabelField, label: string) => replaceLabels(field, [label], []);
+
+// Refreshes the embeddings of memories whose tags changed, so semantic search sees the new tags.
+// Failures are skipped; returns how many were re-embedded.
+export const reembedMemories = async (
+  memories: MemoryItem[],
+  onProgress?: (done: number, total: number) => void
+): Promise<number> => {
+  const ready = memories.filter(m => m.status !== 'pending' && !m.deletedAt);
+  let reembedded = 0;
+  for (const [i, memory] of ready.entries()) {
+    try {
+      const embedded = await embedMemory(memory);
+      // Re-read so edits made while embedding aren't overwritten
+      const current = await getMemory(memory.id);
+      if (embedded.embedding.length > 0 && current) {
+        await saveMemory({ ...current, ...embedded }, 'ai');
+        reembedded++;
+      }
+    } catch (error) {
+      console.error("Re-embedding failed:", error);
+    }
+    onProgress?.(i + 1, ready.length);
+  }
+  return reembedded;
+};
@@ -0,0 +1,103 @@
+import { Collection, Tag, Taxonomy } from '../types';
+import { getAllCollections, getAllTags, saveTag } from './db';
+
+// Tags and collections form trees through `parentId`. Memories keep the topics and the
+// collection they were given; filters and insights on a tag or collection also cover its
+// aliases and everything nested below it.
+
+interface Node {
+  id: string;
+  parentId?: string;
+}
+
+const key = (name: string) => name.trim().toLowerCase();
+
+export const loadTaxonomy = async (): Promise<Taxonomy> => {
+  const [tags, collections] = await Promise.all([getAllTags(), getAllCollections()]);
+  return { tags, collections };
+};
+
+// Parent first, up to the root; stops on a cycle rather than looping
+export const ancestorsOf = <T extends Node>(node: T, all: T[]): T[] => {
+  const chain: T[] = [];
+  const seen = new Set([node.id]);
+  let parent = all.find(n => n.id === node.parentId);
+  while (parent && !seen.has(parent.id)) {
+    chain.push(parent);
+    seen.add(parent.id);
+    parent = all.find(n => n.id === parent!.parentId);
+  }
+  return chain;
+};
+
+// The node and everything nested below it
+export const descendantsOf = <T extends Node>(node: T, all: T[]): T[] => {
+  const found = [node];
+  const seen = new Set([node.id]);
+  for (let i = 0; i < found.length; i++) {
+    all.filter(n => n.parentId === found[i].id && !seen.has(n.id)).forEach(n => {
+      seen.add(n.id);
+      found.push(n);
+    });
+  }
+  return found;
+};
+
+// Whether nesting `id` under `parentId` would make it its own ancestor
+export const createsCycle = <T extends Node>(id: string, parentId: string | undefined, all: T[]): boolean => {
+  if (!parentId) return false;
+  const parent = all.find(n => n.id === parentId);
+  return !!parent && (parent.id === id || ancestorsOf(parent, all).some(n => n.id === id));
+};
+
+export const pathOf = <T extends Node & { name: string }>(node: T, all: T[]): string =>
+  [...ancestorsOf(node, all).reverse(), node].map(n => n.name).join(' / ');
+
+export const findTag = (name: string, tags: Tag[]): Tag | undefined => {
+  const k = key(name);
+  return tags.find(t => key(t.name) === k) || tags.find(t => t.aliases.some(alias => key(alias) === k));
+};
+
+// The taxonomy's spelling of a topic, or the topic itself if it isn't in the taxonomy
+export const canonicalTopic = (topic: string, tags: Tag[]): string => findTag(topic, tags)?.name || topic.trim();
+
+// Topics with aliases mapped to their tag and case-insensitive repeats dropped, first spelling kept
+export const canonicalTopics = (topics: string[], tags: Tag[]): string[] => {
+  const seen = new Set<string>();
+  return topics.map(t => canonicalTopic(t, tags)).filter(t => {
+    if (!t || seen.has(key(t))) return false;
+    seen.add(key(t));
+    return true;
+  });
+};
+
+// A memory's topics plus every parent tag they sit under, for aggregating up the tree
+export const rollUpTopics = (topics: string[], tags: Tag[]): string[] =>
+  canonicalTopics(topics.flatMap(topic => {
+    const tag = findTag(topic, tags);
+    return tag ? [tag.name, ...ancestorsOf(tag, tags).map(t => t.name)] : [topic];
+  }), tags);
+
+// Lower-cased topics a `topic:` filter on `name` matches: the tag, its aliases and all nested tags
+export const topicKeys = (name: string, tags: Tag[]): Set<string> => {
+  const tag = findTag(name, tags);
+  if (!tag) return new Set([key(name)]);
+  return new Set(descendantsOf(tag, tags).flatMap(t => [t.name, ...t.aliases]).map(key));
+};
+
+// Lower-cased collection names a `collection:` filter on `name` matches, including nested collections
+export const collectionKeys = (name: string, collections: Collection[]): Set<string> => {
+  const collection = collections.find(c => key(c.name) === key(name));
+  if (!collection) return new Set([key(name)]);
+  return new Set(descendantsOf(collection, collections).map(c => key(c.name)));
+};
+
+export const createTag = async (fields: Pick<Tag, 'name' | 'parentId' | 'aliases'>): Promise<Tag> => {
+  const name = fields.name.trim();
+  if (findTag(name, await getAllTags())) {
+    throw new Error(`"${name}" is already a tag or an alias`);
+  }
+  const tag: Tag = { ...fields, id: crypto.randomUUID(), name, createdAt: Date.now() };
+  await saveTag(tag);
+  return tag;
+};
@@ -0,0 +1,175 @@
+import { MemoryItem, TextIndexRecord, TextMatch } from '../types';
+import { getTextIndexRecords, onMemoryChange, writeTextIndex } from './db';
+import { hashString, stem, tokenize } from './tokenizer';
+
+// Inverted index with BM25 scoring over each memory's content, summary, topics and mood.
+// Per-memory term frequencies are persisted; postings and document
+// frequencies are assembled in memory on load.
+
+// Part of each record's signature; bump when tokenizing changes so stored records are rebuilt
+const ANALYZER_VERSION = 2;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Tags are short and deliberate, so a hit there counts for more than one in prose
+const FIELD_WEIGHTS = {
+  content: 1,
+  summary: 1,
+  topics: 2,
+  mood: 2
+};
+
+export interface TextQueryOptions {
+  k?: number;
+  filter?: (id: string) => boolean;
+}
+
+const documents = new Map<string, TextIndexRecord>();
+const postings = new Map<string, Set<string>>();
+let totalLength = 0;
+let loading: Promise<void> | null = null;
+
+export const analyzeText = (text: string): string[] => tokenize(text).map(stem);
+
+const indexedText = (memory: MemoryItem) => [
+  memory.content,
+  memory.aiMetadata.summary,
+  (memory.aiMetadata.topics || []).join(' '),
+  (memory.aiMetadata.mood || []).join(' ')
+].join('\n');
+
+const signatureOf = (memory: MemoryItem) => hashString(`${ANALYZER_VERSION}\n${indexedText(memory)}`);
+
+const buildRecord = (memory: MemoryItem): TextIndexRecord => {
+  // No prototype, so terms like "constructor" don't pick up inherited properties
+  const terms: Record<string, number> = Object.create(null);
+  const fields: [string, number][] = [
+    [memory.content, FIELD_WEIGHTS.content],
+    [memory.aiMetadata.summary, FIELD_WEIGHTS.summary],
+    [(memory.aiMetadata.topics || []).join(' '), FIELD_WEIGHTS.topics],
+    [(memory.aiMetadata.mood || []).join(' '), FIELD_WEIGHTS.mood]
+  ];
+
+  let length = 0;
+  for (const [text, weight] of fields) {
+    for (const term of analyzeText(text || '')) {
+      terms[term] = (terms[term] || 0) + weight;
+      length += weight;
+    }
+  }
+  return { id: memory.id, terms, length, signature: signatureOf(memory) };
+};
+
+const addDocument = (record: TextIndexRecord) => {
+  documents.set(record.id, record);
+  totalLength += record.length;
+  Object.keys(record.terms).forEach(term => {
+    if (!postings.has(term)) postings.set(term, new Set());
+    postings.get(term)!.add(record.id);
+  });
+};
+
+const removeDocument = (id: string) => {
+  const record = documents.get(id);
+  if (!record) return;
+  documents.delete(id);
+  totalLength -= record.length;
+  Object.keys(record.terms).forEach(term => {
+    const list = postings.get(term);
+    list?.delete(id);
+    if (list && list.size === 0) postings.delete(term);
+  });
+};
+
+export const loadTextIndex = (): Promise<void> => {
+  if (!loading) {
+    loading = getTextIndexRecords().then(records => records.forEach(addDocument));
+  }
+  return loading;
+};
+
+export const upsertTextDocument = async (memory: MemoryItem): Promise<void> => {
+  await loadTextIndex();
+  const existing = documents.get(memory.id);
+  if (existing && existing.signature === signatureOf(memory)) return;
+
+  const record = buildRecord(memory);
+  removeDocument(memory.id);
+  addDocument(record);
+  await writeTextIndex([record]);
+};
+
+export const removeTextDocument = async (id: string): Promise<void> => {
+  await loadTextIndex();
+  if (!documents.has(id)) return;
+  removeDocument(id);
+  await writeTextIndex([], [id]);
+};
+
+// Reconciles the index with the memory store: indexes new or edited memories, drops stale ones
+export const syncTextIndex = async (memories: MemoryItem[]): Promise<void> => {
+  await loadTextIndex();
+  const changed: TextIndexRecord[] = [];
+  const live = new Set(memories.map(m => m.id));
+
+  for (const memory of memories) {
+    const existing = documents.get(memory.id);
+    if (existing && existing.signature === signatureOf(memory)) continue;
+    const record = buildRecord(memory);
+    removeDocument(memory.id);
+    addDocument(record);
+    changed.push(record);
+  }
+
+  const removedIds = Array.from(documents.keys()).filter(id => !live.has(id));
+  removedIds.forEach(removeDocument);
+
+  if (changed.length > 0 || removedIds.length > 0) {
+    await writeTextIndex(changed, removedIds);
+  }
+};
+
+export const queryTextIndex = async (
+  query: string,
+  { k = 50, filter }: TextQueryOptions = {}
+): Promise<TextMatch[]> => {
+  await loadTextIndex();
+  const queryTerms = Array.from(new Set(analyzeText(query)));
+  if (queryTerms.length === 0 || documents.size === 0) return [];
+
+  const averageLength = totalLength / documents.size || 1;
+  const scores = new Map<string, TextMatch>();
+
+  for (const term of queryTerms) {
+    const list = postings.get(term);
+    if (!list) continue;
+    const idf = Math.log(1 + (documents.size - list.size + 0.5) / (list.size + 0.5));
+
+    list.forEach(id => {
+      if (filter && !filter(id)) return;
+      const record = documents.get(id)!;
+      if (!Object.hasOwn(record.terms, term)) return;
+      const tf = record.terms[term];
+      const termScore = idf * (tf * (BM25_K1 + 1)) /
+        (tf + BM25_K1 * (1 - BM25_B + BM25_B * (record.length / averageLength)));
+
+      const match = scores.get(id) || { id, score: 0, terms: [] };
+      match.score += termScore;
+      match.terms.push(term);
+      scores.set(id, match);
+    });
+  }
+
+  return Array.from(scores.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+};
+
+// Keep the index in step with every write to the memories store
+onMemoryChange((change) => {
+  const update = change.type === 'put'
+    ? upsertTextDocument(change.memory)
+    : removeTextDocument(change.id);
+  update.catch(error => console.error("Text index update failed:", error));
+});
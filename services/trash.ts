@@ -0,0 +1,52 @@
+import { MemoryItem } from '../types';
+import { deleteMemories, getMemory, getTrashedMemories, saveMemory } from './db';
+
+// Deleting a memory moves it to the trash. It keeps its attachments, index entries and
+// connections until it is purged, by hand or once it has been in the trash longer than
+// the retention period.
+
+export const DEFAULT_RETENTION_DAYS = 30;
+const RETENTION_STORAGE_KEY = 'memory.trashRetentionDays';
+const DAY = 24 * 60 * 60 * 1000;
+
+export const getTrashRetentionDays = (): number => {
+  try {
+    const days = Number(localStorage.getItem(RETENTION_STORAGE_KEY));
+    return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+  } catch {
+    return DEFAULT_RETENTION_DAYS;
+  }
+};
+
+export const setTrashRetentionDays = (days: number) => {
+  localStorage.setItem(RETENTION_STORAGE_KEY, String(Math.max(1, Math.round(days))));
+};
+
+// Whole days until the memory is purged, at least 0
+export const daysUntilPurge = (memory: MemoryItem, now: number = Date.now()): number =>
+  Math.max(0, Math.ceil((memory.deletedAt! + getTrashRetentionDays() * DAY - now) / DAY));
+
+export const moveToTrash = async (id: string): Promise<void> => {
+  const memory = await getMemory(id);
+  if (memory && !memory.deletedAt) await saveMemory({ ...memory, deletedAt: Date.now() });
+};
+
+export const restoreFromTrash = async (id: string): Promise<MemoryItem | undefined> => {
+  const memory = await getMemory(id);
+  if (!memory?.deletedAt) return memory;
+  const { deletedAt, ...restored } = memory;
+  await saveMemory(restored);
+  return restored;
+};
+
+export const emptyTrash = async (): Promise<void> => {
+  await deleteMemories((await getTrashedMemories()).map(m => m.id));
+};
+
+// Permanently deletes memories past the retention period; returns how many were purged
+export const purgeExpiredTrash = async (): Promise<number> => {
+  const cutoff = Date.now() - getTrashRetentionDays() * DAY;
+  const expired = (await getTrashedMemories()).filter(m => m.deletedAt! <= cutoff);
+  await deleteMemories(expired.map(m => m.id));
+  return expired.length;
+};
@@ -19,4 +19,22 @@ export const cosineSimilarity = (vecA: number[], vecB: number[]): number => {
   if (magnitudeA === 0 || magnitudeB === 0) return 0;
 
   return dotProduct / (magnitudeA * magnitudeB);
-};
\ No newline at end of file
+};
+
+// Returns a unit-length copy so cosine similarity reduces to a dot product
+export const normalizeVector = (vec: ArrayLike<number>): Float32Array => {
+  const result = new Float32Array(vec.length);
+  let magnitude = 0;
+  for (let i = 0; i < vec.length; i++) magnitude += vec[i] * vec[i];
+  magnitude = Math.sqrt(magnitude);
+  if (magnitude === 0) return result;
+  for (let i = 0; i < vec.length; i++) result[i] = vec[i] / magnitude;
+  return result;
+};
+
+export const dotProduct = (vecA: Float32Array, vecB: Float32Array): number => {
+  if (vecA.length !== vecB.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < vecA.length; i++) sum += vecA[i] * vecB[i];
+  return sum;
+};
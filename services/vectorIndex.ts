@@ -0,0 +1,227 @@
+import { MemoryItem, VectorIndexMeta, VectorMatch, VectorRecord } from '../types';
+import { getVectorIndexData, onMemoryChange, writeVectorIndex } from './db';
+import { dotProduct, normalizeVector } from './vector';
+
+// Inverted-file (IVF) index over memory embeddings. Below MIN_TRAINING_SIZE
+// vectors every query is an exact scan; above it vectors are bucketed by
+// spherical k-means centroids and only the nearest `nprobe` buckets are scanned.
+
+const MIN_TRAINING_SIZE = 256;
+const RETRAIN_GROWTH = 2; // Retrain once the index has doubled since last training
+const TRAINING_SAMPLE_SIZE = 4096;
+const KMEANS_ITERATIONS = 8;
+const DEFAULT_NPROBE = 8;
+const UNASSIGNED = -1;
+
+export interface VectorQueryOptions {
+  k?: number;
+  nprobe?: number;
+  minScore?: number;
+  filter?: (id: string) => boolean;
+}
+
+const vectors = new Map<string, VectorRecord>();
+const lists = new Map<number, Set<string>>();
+let meta: VectorIndexMeta | null = null;
+let loading: Promise<void> | null = null;
+
+const addToList = (record: VectorRecord) => {
+  if (!lists.has(record.cluster)) lists.set(record.cluster, new Set());
+  lists.get(record.cluster)!.add(record.id);
+};
+
+const removeFromList = (record: VectorRecord) => {
+  lists.get(record.cluster)?.delete(record.id);
+};
+
+const nearestCentroid = (vector: Float32Array): number => {
+  if (!meta || vector.length !== meta.dimensions) return UNASSIGNED;
+  let best = UNASSIGNED;
+  let bestScore = -Infinity;
+  meta.centroids.forEach((centroid, i) => {
+    const score = dotProduct(vector, centroid);
+    if (score > bestScore) {
+      bestScore = score;
+      best = i;
+    }
+  });
+  return best;
+};
+
+const sameVector = (a: Float32Array, b: Float32Array) => {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (Math.abs(a[i] - b[i]) > 1e-6) return false;
+  }
+  return true;
+};
+
+// Spherical k-means over a deterministic sample of the indexed vectors
+const train = (): VectorRecord[] => {
+  const dimensionCounts = new Map<number, number>();
+  vectors.forEach(r => dimensionCounts.set(r.vector.length, (dimensionCounts.get(r.vector.length) || 0) + 1));
+  const dimensions = Array.from(dimensionCounts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+
+  const eligible = Array.from(vectors.values()).filter(r => r.vector.length === dimensions);
+  const step = Math.max(1, Math.floor(eligible.length / TRAINING_SAMPLE_SIZE));
+  const sample = eligible.filter((_, i) => i % step === 0).map(r => r.vector);
+  const listCount = Math.max(1, Math.round(Math.sqrt(eligible.length)));
+
+  let centroids = Array.from({ length: listCount }, (_, i) =>
+    Float32Array.from(sample[Math.floor((i * sample.length) / listCount)])
+  );
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centroids.map(() => new Float32Array(dimensions));
+    const counts = new Array(centroids.length).fill(0);
+    for (const vector of sample) {
+      let best = 0;
+      let bestScore = -Infinity;
+      centroids.forEach((centroid, i) => {
+        const score = dotProduct(vector, centroid);
+        if (score > bestScore) {
+          bestScore = score;
+          best = i;
+        }
+      });
+      counts[best]++;
+      for (let d = 0; d < dimensions; d++) sums[best][d] += vector[d];
+    }
+    // Empty clusters keep their previous centroid
+    centroids = centroids.map((centroid, i) => (counts[i] > 0 ? normalizeVector(sums[i]) : centroid));
+  }
+
+  meta = { id: 'ivf', dimensions, centroids, trainedSize: vectors.size };
+  lists.clear();
+  const reassigned: VectorRecord[] = [];
+  vectors.forEach(record => {
+    const updated = { ...record, cluster: nearestCentroid(record.vector) };
+    vectors.set(record.id, updated);
+    addToList(updated);
+    reassigned.push(updated);
+  });
+  return reassigned;
+};
+
+const needsTraining = () =>
+  vectors.size >= MIN_TRAINING_SIZE && (!meta || vectors.size >= meta.trainedSize * RETRAIN_GROWTH);
+
+const persistWithTraining = async (changed: VectorRecord[], removedIds: string[] = []) => {
+  if (needsTraining()) {
+    await writeVectorIndex(train(), removedIds, meta);
+  } else {
+    await writeVectorIndex(changed, removedIds);
+  }
+};
+
+export const loadVectorIndex = (): Promise<void> => {
+  if (!loading) {
+    loading = getVectorIndexData().then(data => {
+      meta = data.meta;
+      data.records.forEach(record => {
+        vectors.set(record.id, record);
+        addToList(record);
+      });
+    });
+  }
+  return loading;
+};
+
+export const upsertVector = async (id: string, embedding: number[]): Promise<void> => {
+  await loadVectorIndex();
+  const existing = vectors.get(id);
+  if (!embedding || embedding.length === 0) {
+    if (existing) await removeVector(id);
+    return;
+  }
+
+  const vector = normalizeVector(embedding);
+  if (existing && sameVector(existing.vector, vector)) return;
+
+  if (existing) removeFromList(existing);
+  const record: VectorRecord = { id, vector, cluster: nearestCentroid(vector) };
+  vectors.set(id, record);
+  addToList(record);
+  await persistWithTraining([record]);
+};
+
+export const removeVector = async (id: string): Promise<void> => {
+  await loadVectorIndex();
+  const existing = vectors.get(id);
+  if (!existing) return;
+  removeFromList(existing);
+  vectors.delete(id);
+  await writeVectorIndex([], [id]);
+};
+
+// Reconciles the index with the memory store: adds missing or changed vectors, drops stale ones
+export const syncVectorIndex = async (memories: MemoryItem[]): Promise<void> => {
+  await loadVectorIndex();
+  const changed: VectorRecord[] = [];
+  const live = new Set<string>();
+
+  for (const memory of memories) {
+    if (!memory.embedding || memory.embedding.length === 0) continue;
+    live.add(memory.id);
+    const vector = normalizeVector(memory.embedding);
+    const existing = vectors.get(memory.id);
+    if (existing && sameVector(existing.vector, vector)) continue;
+    if (existing) removeFromList(existing);
+    const record: VectorRecord = { id: memory.id, vector, cluster: nearestCentroid(vector) };
+    vectors.set(memory.id, record);
+    addToList(record);
+    changed.push(record);
+  }
+
+  const removedIds = Array.from(vectors.keys()).filter(id => !live.has(id));
+  removedIds.forEach(id => {
+    removeFromList(vectors.get(id)!);
+    vectors.delete(id);
+  });
+
+  if (changed.length > 0 || removedIds.length > 0 || needsTraining()) {
+    await persistWithTraining(changed, removedIds);
+  }
+};
+
+export const queryVectorIndex = async (
+  query: number[],
+  { k = 10, nprobe = DEFAULT_NPROBE, minScore = -Infinity, filter }: VectorQueryOptions = {}
+): Promise<VectorMatch[]> => {
+  await loadVectorIndex();
+  if (!query || query.length === 0) return [];
+  const queryVector = normalizeVector(query);
+
+  let candidates: Iterable<string>;
+  if (meta && queryVector.length === meta.dimensions) {
+    const probed = meta.centroids
+      .map((centroid, i) => ({ i, score: dotProduct(queryVector, centroid) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, nprobe)
+      .map(c => c.i);
+    const ids = new Set<string>(lists.get(UNASSIGNED) || []);
+    probed.forEach(i => lists.get(i)?.forEach(id => ids.add(id)));
+    candidates = ids;
+  } else {
+    candidates = vectors.keys();
+  }
+
+  const matches: VectorMatch[] = [];
+  for (const id of candidates) {
+    if (filter && !filter(id)) continue;
+    const record = vectors.get(id);
+    if (!record || record.vector.length !== queryVector.length) continue;
+    const score = dotProduct(queryVector, record.vector);
+    if (score >= minScore) matches.push({ id, score });
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, k);
+};
+
+// Keep the index in step with every write to the memories store
+onMemoryChange((change) => {
+  const update = change.type === 'put'
+    ? upsertVector(change.memory.id, change.memory.embedding)
+    : removeVector(change.id);
+  update.catch(error => console.error("Vector index update failed:", error));
+});
@@ -42,6 +42,11 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  // Proxied page fetches must always hit the network
+  if (new URL(event.request.url).pathname.startsWith('/api/')) {
+    return;
+  }
+
   // Special handling for manifest.json to ensure correct content-type
   if (event.request.url.includes('/manifest.json')) {
     event.respondWith(
@@ -99,3 +104,16 @@ self.addEventListener('fetch', (event) => {
     })
   );
 });
+
+// Background Sync: wake open pages so they can drain the offline capture queue.
+// The AI calls themselves run in the page, where the provider and API key live.
+self.addEventListener('sync', (event) => {
+  if (event.tag !== 'capture-queue') {
+    return;
+  }
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: 'process-capture-queue' }));
+    })
+  );
+});
@@ -1,5 +1,7 @@
 export type MemoryType = 'link' | 'note' | 'image' | 'pdf';
 
+export type MemoryStatus = 'pending' | 'ready' | 'failed'; // 'failed': analysis gave up, see analysisError
+
 export interface AIMetadata {
   summary: string;
   topics: string[];
@@ -14,16 +16,75 @@ export interface MemoryItem {
   id: string;
   type: MemoryType;
   content: string; // The raw text or URL. For PDF this might be the filename.
-  imageData?: string; // Base64 for images OR PDFs
+  attachmentId?: string; // Key into the attachments store (image or PDF)
   aiMetadata: AIMetadata;
   embedding: number[];
+  embeddingModel?: string; // "<provider>/<model>" that produced `embedding`; vectors from different models can't be compared
+  embeddingDimensions?: number;
+  analysisModel?: string; // "<provider>/<model>" that wrote the AI metadata, missing if unknown
+  analysisError?: string; // Why the last analysis gave up, while status is 'failed'
+  createdAt: number;
+  status?: MemoryStatus; // Missing means 'ready' (saved before the capture queue existed)
+  lastResurfaced?: number; // When this memory was last reviewed
+  resurfaceCount?: number; // How many times it's been reviewed
+  review?: ReviewSchedule; // Spaced-repetition schedule, missing until first reviewed
+  pageCount?: number; // PDFs: pages read by text extraction, set once the pages are indexed
+  linkHealth?: LinkHealth; // Links: result of the latest link rot check
+  deletedAt?: number; // Set while the memory is in the trash
+  pinned?: boolean; // Kept at the top of the grid
+}
+
+export interface LinkHealth {
+  status: number; // HTTP status of the last check, 0 when the site couldn't be reached
+  finalUrl?: string; // Where redirects ended up
+  redirected: boolean;
+  dead: boolean;
+  failures: number; // Consecutive failed checks
+  checkedAt: number;
+  error?: string;
+}
+
+export interface Attachment {
+  id: string;
+  memoryId: string;
+  mimeType: string;
+  size: number; // Bytes
+  blob: Blob;
+  thumbnail?: Blob; // Small JPEG preview for the grid (images only)
+  hash?: string; // SHA-256 of the blob, used to spot the same file saved twice
   createdAt: number;
-  lastResurfaced?: number; // When this memory was last shown
-  resurfaceCount?: number; // How many times it's been resurfaced
+}
+
+export type AttachmentVariant = 'full' | 'thumbnail';
+
+export interface ScoreBreakdown {
+  semantic: number; // Cosine similarity to the query, 0 if not a semantic hit
+  recency: number; // Recency boost added to the semantic score
+  keyword: number; // BM25 score, 0 if no keyword hit
+  exactTag: boolean; // A topic or mood equals the query
+  passage: number; // Relevance of the best matching PDF page chunk, 0 if none
+  // Share of the final score contributed by each ranked list
+  contributions: { semantic: number, keyword: number, exactTag: number, passage: number };
+}
+
+export interface MatchSpan {
+  field: 'content' | 'summary' | 'passage';
+  start: number;
+  end: number; // Exclusive
 }
 
 export interface SearchResult extends MemoryItem {
-  score: number; // Similarity score
+  score: number; // Fused relevance score, 1 = ranked first in every list
+  breakdown: ScoreBreakdown;
+  spans: MatchSpan[];
+  matchedTerms: string[]; // Stemmed query terms found in the memory
+  passage?: PassageMatch; // Where in a PDF the query matched
+}
+
+export interface PassageMatch {
+  page: number; // 1-based
+  text: string; // Snippet around the match
+  score: number;
 }
 
 export interface Collection {
@@ -32,9 +93,36 @@ export interface Collection {
   description?: string;
   memoryIds: string[];
   color?: string;
+  aliases?: string[]; // Former names and names merged into this one; AI picks matching them land here
+  order?: number; // Position set by reordering; missing for collections made since
+  parentId?: string; // Nested collections: "Work / Project X / Research"
   createdAt: number;
 }
 
+// An entry in the tag taxonomy. Memories keep the topics they were given; the taxonomy maps
+// aliases onto the tag and rolls child tags up into their parents in search and insights.
+export interface Tag {
+  id: string;
+  name: string;
+  parentId?: string;
+  aliases: string[]; // Synonyms and spellings treated as this tag, matched ignoring case
+  createdAt: number;
+}
+
+// Tag lists the tag manager edits in bulk
+export type LabelField = 'topics' | 'mood';
+
+export interface LabelUsage {
+  label: string; // Most used spelling
+  spellings: string[]; // Every spelling in use, which differ only in case
+  count: number; // Memories carrying it
+}
+
+export interface Taxonomy {
+  tags: Tag[];
+  collections: Collection[];
+}
+
 export interface Insight {
   type: 'pattern' | 'trend' | 'connection' | 'reminder';
   title: string;
@@ -51,4 +139,305 @@ export interface AnalysisResponse {
   colors: string[];
   collection?: string;
   importance?: number;
-}
\ No newline at end of file
+}
+
+// AI Providers
+export type AIProviderId = 'gemini' | 'local';
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  embeddingModel: string; // Changing it puts stored embeddings in a different vector space
+  analysisModel: (inputType: MemoryType) => string;
+  embed: (text: string) => Promise<number[]>; // Resolves to [] on failure
+  // Rejects when the backend is unreachable so callers can retry
+  analyze: (
+    content: string,
+    media?: { data: string, mimeType: string },
+    inputType?: MemoryType
+  ) => Promise<AIMetadata>;
+  groundLink: (url: string) => Promise<string>;
+  // A question testing recall of a memory without giving it away; throws when unreachable
+  recallPrompt: (summary: string, topics: string[]) => Promise<string>;
+  // Streams an answer to `question` that cites `sources` as [1], [2]...; throws when unreachable
+  answer: (
+    question: string,
+    sources: AnswerSource[],
+    history: ChatMessage[],
+    options: AnswerOptions
+  ) => AsyncGenerator<string>;
+}
+
+// Link Snapshots
+export interface LinkSnapshot {
+  memoryId: string;
+  url: string; // As saved
+  finalUrl: string; // After redirects
+  title: string;
+  author?: string;
+  siteName?: string;
+  publishedAt?: string;
+  text: string; // Readable main text; blocks separated by blank lines, headings prefixed "## ", list items "- "
+  heroImage?: Blob;
+  heroImageUrl?: string;
+  fetchedAt: number;
+}
+
+// Ask Your Brain
+export interface AnswerSource {
+  memoryId: string;
+  text: string; // Memory rendered as context for the model
+}
+
+export interface AnswerOptions {
+  strict: boolean; // Answer only from the sources, never from general knowledge
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  sources?: string[]; // Memory IDs given as context; citation [n] refers to sources[n - 1]
+  error?: string;
+  createdAt: number;
+}
+
+// Database Migrations
+export interface MigrationProgress {
+  version: number;
+  description: string;
+  index: number; // 1-based position within this upgrade run
+  total: number;
+  status: 'running' | 'done' | 'failed';
+  error?: string;
+}
+
+// Archive Export / Import
+export interface ArchiveAttachment {
+  path: string; // Location of the binary file inside the archive
+  mimeType: string;
+}
+
+export interface ArchivedMemory extends Omit<MemoryItem, 'attachmentId' | 'embedding'> {
+  embedding?: number[];
+  attachment?: ArchiveAttachment;
+  snapshot?: ArchivedSnapshot;
+}
+
+export interface ArchivedSnapshot extends Omit<LinkSnapshot, 'memoryId' | 'heroImage'> {
+  heroImage?: ArchiveAttachment;
+}
+
+export interface ArchiveManifest {
+  format: 'memory-archive';
+  version: number;
+  exportedAt: number;
+  includesEmbeddings: boolean;
+  memories: ArchivedMemory[];
+  collections: Collection[];
+  tags?: Tag[]; // Missing in archives made before the tag taxonomy
+}
+
+export type ImportConflictPolicy = 'keep-local' | 'use-imported';
+
+export interface ImportReport {
+  added: string[];
+  updated: string[];
+  conflicts: string[]; // IDs that exist locally with different content
+  skipped: { id: string; reason: string }[];
+  collectionsMerged: number;
+}
+
+// Vector Index
+export interface VectorRecord {
+  id: string; // Memory ID
+  vector: Float32Array; // L2-normalized embedding
+  cluster: number; // Inverted list the vector belongs to, -1 when unassigned
+}
+
+export interface VectorIndexMeta {
+  id: 'ivf';
+  dimensions: number;
+  centroids: Float32Array[];
+  trainedSize: number; // Number of vectors the centroids were trained on
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number; // Cosine similarity
+}
+
+export type MemoryChange =
+  | { type: 'put', memory: MemoryItem }
+  | { type: 'delete', id: string };
+
+// Search Query Language
+export type QueryField = 'type' | 'topic' | 'mood' | 'color' | 'collection' | 'before' | 'after';
+
+export interface QueryClause {
+  field: QueryField | 'phrase' | 'word'; // 'phrase' = quoted text, 'word' = negated bare word
+  value: string;
+  negated: boolean;
+}
+
+export interface ParsedQuery {
+  text: string; // Free text left over for semantic ranking
+  groups: QueryClause[][]; // AND of groups, each group is an OR of clauses
+}
+
+// Full-text Index
+export interface TextIndexRecord {
+  id: string; // Memory ID
+  terms: Record<string, number>; // Weighted term frequency per stemmed token
+  length: number; // Sum of weighted term frequencies
+  signature: number; // Hash of the indexed text, used to skip unchanged memories
+}
+
+export interface PdfChunk {
+  id: string; // `${memoryId}:${index}`
+  memoryId: string;
+  page: number; // 1-based page the chunk was taken from
+  text: string;
+  embedding: Float32Array; // L2-normalized, empty when embedding failed
+  embeddingModel?: string;
+}
+
+export interface TextMatch {
+  id: string;
+  score: number; // BM25 score
+  terms: string[]; // Query terms that matched
+}
+
+// Capture Queue
+export interface CaptureJob {
+  id: string; // Memory ID
+  contentToAnalyze: string; // Text sent to the AI alongside any attachment
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+}
+
+// Batch Import
+export interface ImportedEntry {
+  type: MemoryType;
+  content: string;
+  title?: string;
+  topics?: string[]; // Tags from the source, kept alongside the AI's topics
+  collection?: string; // Source folder, used instead of the AI's pick
+  createdAt?: number;
+}
+
+export type BatchItemStatus = 'queued' | 'saving' | 'analyzing' | 'done' | 'deferred' | 'duplicate' | 'failed' | 'cancelled';
+
+export interface BatchImportItem {
+  id: string;
+  file?: File; // Image or PDF to attach
+  entry?: ImportedEntry; // Note or link parsed from an export file
+  path: string; // Relative path inside a dropped folder, or where the entry came from
+  status: BatchItemStatus;
+  attempts: number;
+  memoryId?: string; // Set once the memory is saved
+  error?: string;
+}
+
+// Duplicates
+export type DuplicateReason = 'url' | 'content' | 'attachment' | 'similar';
+
+export interface DuplicateMatch {
+  memory: MemoryItem;
+  reason: DuplicateReason;
+  similarity: number; // 1 for exact matches
+}
+
+export interface DuplicateGroup {
+  memoryIds: string[]; // Oldest first
+  reason: DuplicateReason; // Strongest reason linking the group
+  similarity: number; // Lowest pairwise similarity that joined the group
+}
+
+export type DuplicateResolution = 'merge' | 'link' | 'keep';
+
+// Revision History
+export type RevisionAuthor = 'user' | 'ai';
+
+export type RevisionAction = 'create' | 'edit' | 'analyze' | 'revert' | 'delete' | 'restore';
+
+export type RevisionField = 'content' | 'summary' | 'topics' | 'mood' | 'colors' | 'collection';
+
+export interface RevisionChange {
+  field: RevisionField;
+  before?: string | string[]; // Missing on create
+  after: string | string[];
+}
+
+export interface Revision {
+  id: string;
+  memoryId: string;
+  author: RevisionAuthor;
+  action: RevisionAction;
+  changes: RevisionChange[];
+  revertible: boolean; // False for creates, trash moves and the first analysis of a pending memory
+  revertOf?: string; // The revision this one undid
+  createdAt: number;
+}
+
+// Referential Integrity
+export interface IntegrityReport {
+  memoriesChecked: number;
+  orphanedLinks: number; // Links to missing memories, to the memory itself, or repeated
+  asymmetricLinks: number; // Links added to the other end
+  collectionsFixed: number; // Collections whose member list was rebuilt or created
+}
+
+// Re-indexing after a model change
+export type MemoryEmbedding = Pick<MemoryItem, 'embedding' | 'embeddingModel' | 'embeddingDimensions'>;
+
+export type ReindexMode = 'embed' | 'analyze'; // New embeddings only, or a full re-analysis
+
+export interface ReindexJob {
+  mode: ReindexMode;
+  total: number;
+  done: number;
+  failed: string[]; // Memory ids skipped for the rest of this run
+  paused: boolean; // Waiting for the provider to be reachable
+  startedAt: number;
+}
+
+export interface StaleCounts {
+  embeddings: number; // Missing, or from another embedding model
+  analysis: number; // Analyzed by another model, or before models were recorded
+}
+
+// Spaced Repetition
+export type ReviewGrade = 'forgot' | 'hard' | 'good' | 'easy';
+
+export interface ReviewSchedule {
+  due: number;
+  interval: number; // Days from the last review to `due`
+  ease: number; // Interval multiplier for "good", adjusted by each grade (SM-2)
+  reps: number; // Reviews remembered in a row
+  lapses: number; // Times forgotten
+  lastReviewedAt?: number;
+  suspended?: boolean; // Left out of reviews
+  prompt?: string; // Recall question, reused until the summary changes
+  promptSummary?: string; // Summary the prompt was written from
+}
+
+export interface ReviewLogEntry {
+  id: string;
+  memoryId: string;
+  grade: ReviewGrade;
+  reviewedAt: number;
+  interval: number; // Days until the next review
+  isNew: boolean; // First review of the memory
+}
+
+export interface ReviewStats {
+  due: number; // Due by the end of today
+  newAvailable: number; // Unreviewed memories that can still be introduced today
+  reviewedToday: number;
+  currentStreak: number; // Days in a row with a review, ending today or yesterday
+  longestStreak: number;
+  retention?: number; // Share of reviews in the last 30 days that weren't forgotten (0-1), missing without any
+}
@@ -1,7 +1,118 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Addresses the proxy won't fetch from: loopback, private networks, link-local (cloud metadata)
+// and other non-public ranges, so it can't be used to reach the host or its network
+const BLOCKED_RANGES = [
+  '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16', '172.16.0.0/12',
+  '192.0.0.0/24', '192.168.0.0/16', '198.18.0.0/15', '224.0.0.0/3',
+  '::/127', '::ffff:0:0/96', 'fc00::/7', 'fe80::/10', 'ff00::/8'
+];
+const blockedAddresses = new BlockList();
+BLOCKED_RANGES.forEach(range => {
+  const [address, prefix] = range.split('/');
+  blockedAddresses.addSubnet(address, Number(prefix), isIP(address) === 6 ? 'ipv6' : 'ipv4');
+});
+
+const isBlockedAddress = (address: string) => {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return blockedAddresses.check(mapped, 'ipv4');
+  return blockedAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+};
+
+const isLoopback = (address?: string) =>
+  !!address && (address === '::1' || /^(::ffff:)?127\./i.test(address));
+
+const isPublicTarget = async (url: URL) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(a => a.address);
+  return addresses.length > 0 && !addresses.some(isBlockedAddress);
+};
+
+const MAX_REDIRECTS = 5;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+// Reads at most `limit` bytes; larger bodies are refused rather than buffered
+const readBody = async (response: Response, limit: number): Promise<Buffer> => {
+  if (Number(response.headers.get('content-length')) > limit) throw new Error('Response too large');
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      throw new Error('Response too large');
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+};
+
+// Stand-in for the fetch proxy used by link snapshots (GET /api/fetch?url=...). It fetches
+// the page server-side, passes the status and content type through and reports redirects in
+// X-Final-Url and X-Redirected. Its own failures (DNS, timeouts, refused addresses, bodies over
+// 5 MB) are marked with X-Proxy-Error. Only clients on this machine may use it, and it only
+// fetches public addresses, redirects included.
+// Dev and preview servers only; deploy a real proxy and point the app at it for production.
+const fetchProxy = (): Plugin => {
+  const handle = async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    if (!req.url?.startsWith('/api/fetch')) return next();
+    if (!isLoopback(req.socket.remoteAddress)) {
+      res.statusCode = 403;
+      res.end('The fetch proxy only serves this machine');
+      return;
+    }
+    const target = new URL(req.url, 'http://localhost').searchParams.get('url');
+    if (!target || !/^https?:\/\//i.test(target)) {
+      res.statusCode = 400;
+      res.end('Missing or invalid url');
+      return;
+    }
+    try {
+      // Redirects are followed by hand so every hop is checked
+      let url = new URL(target);
+      let upstream: Response;
+      for (let hops = 0; ; hops++) {
+        if (!(await isPublicTarget(url))) throw new Error(`Refusing to fetch ${url.host}`);
+        upstream = await fetch(url, {
+          headers: { 'User-Agent': 'Mozilla/5.0 (compatible; MemorySnapshot/1.0)' },
+          redirect: 'manual',
+          signal: AbortSignal.timeout(15000)
+        });
+        const location = upstream.headers.get('location');
+        if (upstream.status < 300 || upstream.status >= 400 || !location) break;
+        if (hops >= MAX_REDIRECTS) throw new Error('Too many redirects');
+        await upstream.body?.cancel();
+        url = new URL(location, url);
+      }
+      const body = await readBody(upstream, MAX_BODY_BYTES);
+      res.statusCode = upstream.status;
+      res.setHeader('Content-Type', upstream.headers.get('content-type') || 'application/octet-stream');
+      res.setHeader('X-Final-Url', url.href);
+      res.setHeader('X-Redirected', url.href !== new URL(target).href ? '1' : '0');
+      res.end(body);
+    } catch (error) {
+      res.statusCode = 502;
+      res.setHeader('X-Proxy-Error', '1');
+      res.end(`Fetch failed: ${error}`);
+    }
+  };
+  return {
+    name: 'fetch-proxy',
+    configureServer: (server) => { server.middlewares.use(handle); },
+    configurePreviewServer: (server) => { server.middlewares.use(handle); }
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +120,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), fetchProxy()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)